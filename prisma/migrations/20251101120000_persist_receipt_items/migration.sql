@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."Session" ADD COLUMN     "name" TEXT,
+ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'UNKNOWN';
+
+-- AlterTable
+ALTER TABLE "public"."ReceiptItem" ADD COLUMN     "quantity" DECIMAL(65,30) NOT NULL DEFAULT 1,
+ADD COLUMN     "totalPrice" DECIMAL(65,30) NOT NULL DEFAULT 0,
+ADD COLUMN     "kind" TEXT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."ItemAssignment" ADD COLUMN     "units" DECIMAL(65,30),
+ADD COLUMN     "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
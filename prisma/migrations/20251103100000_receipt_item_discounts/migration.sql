@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."ReceiptItem" ADD COLUMN     "appliesToItemId" INTEGER,
+ADD COLUMN     "percent" DECIMAL(65,30);
+
+-- AddForeignKey
+ALTER TABLE "public"."ReceiptItem" ADD CONSTRAINT "ReceiptItem_appliesToItemId_fkey" FOREIGN KEY ("appliesToItemId") REFERENCES "public"."ReceiptItem"("id") ON DELETE SET NULL ON UPDATE CASCADE;
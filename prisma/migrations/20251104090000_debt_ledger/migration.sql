@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "public"."SessionPayer" (
+    "sessionId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL,
+
+    CONSTRAINT "SessionPayer_pkey" PRIMARY KEY ("sessionId","userId")
+);
+
+-- CreateTable
+CREATE TABLE "public"."LedgerEntry" (
+    "id" SERIAL NOT NULL,
+    "sessionId" INTEGER NOT NULL,
+    "debtorId" INTEGER NOT NULL,
+    "creditorId" INTEGER NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'UNKNOWN',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_sessionId_idx" ON "public"."LedgerEntry"("sessionId");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_debtorId_idx" ON "public"."LedgerEntry"("debtorId");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_creditorId_idx" ON "public"."LedgerEntry"("creditorId");
+
+-- AddForeignKey
+ALTER TABLE "public"."SessionPayer" ADD CONSTRAINT "SessionPayer_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "public"."Session"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."SessionPayer" ADD CONSTRAINT "SessionPayer_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."LedgerEntry" ADD CONSTRAINT "LedgerEntry_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "public"."Session"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."LedgerEntry" ADD CONSTRAINT "LedgerEntry_debtorId_fkey" FOREIGN KEY ("debtorId") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."LedgerEntry" ADD CONSTRAINT "LedgerEntry_creditorId_fkey" FOREIGN KEY ("creditorId") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
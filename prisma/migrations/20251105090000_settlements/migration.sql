@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "public"."SettlementStatus" AS ENUM ('PENDING', 'CONFIRMED', 'DISPUTED');
+
+-- CreateTable
+CREATE TABLE "public"."Settlement" (
+    "id" SERIAL NOT NULL,
+    "payerId" INTEGER NOT NULL,
+    "payeeId" INTEGER NOT NULL,
+    "groupId" INTEGER,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "currency" TEXT NOT NULL,
+    "note" TEXT,
+    "status" "public"."SettlementStatus" NOT NULL DEFAULT 'PENDING',
+    "respondedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Settlement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Settlement_payerId_idx" ON "public"."Settlement"("payerId");
+
+-- CreateIndex
+CREATE INDEX "Settlement_payeeId_idx" ON "public"."Settlement"("payeeId");
+
+-- CreateIndex
+CREATE INDEX "Settlement_groupId_idx" ON "public"."Settlement"("groupId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Settlement" ADD CONSTRAINT "Settlement_payerId_fkey" FOREIGN KEY ("payerId") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Settlement" ADD CONSTRAINT "Settlement_payeeId_fkey" FOREIGN KEY ("payeeId") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Settlement" ADD CONSTRAINT "Settlement_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "public"."Group"("id") ON DELETE SET NULL ON UPDATE CASCADE;
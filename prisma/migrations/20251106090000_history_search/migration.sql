@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "public"."SessionHistoryEntry" ADD COLUMN     "searchText" TEXT NOT NULL DEFAULT '';
+
+-- Backfill: session name plus item names from the stored finalize payload
+UPDATE "public"."SessionHistoryEntry" AS h
+SET "searchText" = btrim(regexp_replace(lower(concat_ws(' ',
+    h."sessionName",
+    (
+        SELECT string_agg(item->>'name', ' ')
+        FROM jsonb_array_elements(
+            CASE WHEN jsonb_typeof(h."payload"->'totals'->'byItem') = 'array'
+                THEN h."payload"->'totals'->'byItem'
+                ELSE '[]'::jsonb
+            END
+        ) AS item
+    )
+)), '\s+', ' ', 'g'));
+
+-- CreateIndex
+CREATE INDEX "SessionHistoryEntry_finalizedAt_id_idx" ON "public"."SessionHistoryEntry"("finalizedAt", "id");
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "public"."SessionParticipant" ADD COLUMN     "amountChangedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."SessionHistoryVersion" (
+    "id" SERIAL NOT NULL,
+    "sessionId" INTEGER NOT NULL,
+    "version" INTEGER NOT NULL,
+    "finalizedById" INTEGER NOT NULL,
+    "payload" JSONB NOT NULL,
+    "grandTotal" DECIMAL(65,30) NOT NULL,
+    "currency" TEXT NOT NULL,
+    "diff" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SessionHistoryVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SessionHistoryVersion_sessionId_version_key" ON "public"."SessionHistoryVersion"("sessionId", "version");
+
+-- AddForeignKey
+ALTER TABLE "public"."SessionHistoryVersion" ADD CONSTRAINT "SessionHistoryVersion_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "public"."Session"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."SessionHistoryVersion" ADD CONSTRAINT "SessionHistoryVersion_finalizedById_fkey" FOREIGN KEY ("finalizedById") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Backfill: existing history entries become version 1
+INSERT INTO "public"."SessionHistoryVersion" ("sessionId", "version", "finalizedById", "payload", "grandTotal", "currency", "createdAt")
+SELECT "sessionId", 1, "creatorId", "payload", "grandTotal", "currency", "finalizedAt"
+FROM "public"."SessionHistoryEntry";
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "public"."SessionStatus" ADD VALUE 'FINALIZED' BEFORE 'CANCELED';
@@ -0,0 +1,6 @@
+-- Sessions that already have a finalize result are FINALIZED
+-- (separate migration: a new enum value cannot be used in the transaction that adds it)
+UPDATE "public"."Session"
+SET "status" = 'FINALIZED'
+WHERE "status" IN ('ACTIVE', 'CLOSED')
+  AND "id" IN (SELECT "sessionId" FROM "public"."SessionHistoryEntry");
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "public"."Session" ADD COLUMN     "receiptImageKeys" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "public"."ReceiptItem" ADD COLUMN     "page" INTEGER;
+
+-- Backfill: single photos stored before multi-photo scans
+UPDATE "public"."Session"
+SET "receiptImageKeys" = ARRAY["receiptImageUrl"]
+WHERE "receiptImageUrl" LIKE 'receipts/%';
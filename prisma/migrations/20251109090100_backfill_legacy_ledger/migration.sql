@@ -0,0 +1,28 @@
+-- Sessions finalized before the debt ledger existed have no LedgerEntry rows, so
+-- their debts were missing from /balances. Post them the way the group settle plan
+-- rebuilds them: the creator paid the whole bill, so every other participant owes
+-- the creator their share (amountOwed, or total in the earliest payloads).
+INSERT INTO "public"."LedgerEntry" ("sessionId", "debtorId", "creditorId", "amount", "currency", "createdAt")
+SELECT h."sessionId",
+       u."id",
+       s."creatorId",
+       shares."amount",
+       h."currency",
+       h."finalizedAt"
+FROM "public"."SessionHistoryEntry" h
+JOIN "public"."Session" s ON s."id" = h."sessionId"
+CROSS JOIN LATERAL (
+    SELECT p->>'uniqueId' AS "uniqueId",
+           COALESCE(p->>'amountOwed', p->>'total')::DECIMAL(65,30) AS "amount"
+    FROM jsonb_array_elements(
+        CASE WHEN jsonb_typeof(h."payload"->'totals'->'byParticipant') = 'array'
+             THEN h."payload"->'totals'->'byParticipant'
+             ELSE '[]'::jsonb END
+    ) AS p
+) AS shares
+JOIN "public"."User" u ON u."uniqueId" = shares."uniqueId"
+WHERE u."id" <> s."creatorId"
+  AND shares."amount" > 0
+  AND NOT EXISTS (
+      SELECT 1 FROM "public"."LedgerEntry" l WHERE l."sessionId" = h."sessionId"
+  );
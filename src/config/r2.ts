@@ -1,4 +1,10 @@
-import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 
 const R2_ENDPOINT = process.env.R2_ENDPOINT || ""; // e.g. https://<accountid>.r2.cloudflarestorage.com
 const R2_ACCESS_KEY_ID = process.env.R2_ACCESS_KEY_ID || "";
@@ -20,6 +26,24 @@ export function assertR2Config() {
   }
 }
 
+/** Credentials and bucket only; private objects (receipts) never go through the CDN */
+export function hasR2Bucket() {
+  return !!(
+    R2_ENDPOINT &&
+    R2_ACCESS_KEY_ID &&
+    R2_SECRET_ACCESS_KEY &&
+    R2_BUCKET
+  );
+}
+
+function assertBucketConfig() {
+  if (!hasR2Bucket()) {
+    throw new Error(
+      "R2 config missing: require R2_ENDPOINT, R2_ACCESS_KEY_ID, R2_SECRET_ACCESS_KEY, R2_BUCKET"
+    );
+  }
+}
+
 export const r2Client = new S3Client({
   region: "auto",
   endpoint: R2_ENDPOINT,
@@ -47,3 +71,39 @@ export async function uploadAvatarObject(
   const url = `${CDN_BASE_URL}/${key}`;
   return { key, url };
 }
+
+/** Upload an object that is only reachable through signed URLs */
+export async function uploadPrivateObject(
+  key: string,
+  body: Buffer,
+  contentType: string
+): Promise<{ key: string }> {
+  assertBucketConfig();
+  const put = new PutObjectCommand({
+    Bucket: R2_BUCKET,
+    Key: key,
+    Body: body,
+    ContentType: contentType,
+    CacheControl: "private, max-age=0, no-store",
+  });
+  await r2Client.send(put);
+  return { key };
+}
+
+export async function deleteObject(key: string): Promise<void> {
+  assertBucketConfig();
+  await r2Client.send(new DeleteObjectCommand({ Bucket: R2_BUCKET, Key: key }));
+}
+
+/** Time-limited GET URL for a private object */
+export async function getSignedObjectUrl(
+  key: string,
+  expiresInSeconds: number
+): Promise<string> {
+  assertBucketConfig();
+  return getSignedUrl(
+    r2Client,
+    new GetObjectCommand({ Bucket: R2_BUCKET, Key: key }),
+    { expiresIn: expiresInSeconds }
+  );
+}
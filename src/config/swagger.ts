@@ -117,10 +117,24 @@ const options = {
             id: { type: "integer" },
             creatorId: { type: "integer" },
             groupId: { type: "integer", nullable: true },
-            receiptImageUrl: { type: "string", nullable: true },
+            receiptImageUrl: {
+              type: "string",
+              nullable: true,
+              description:
+                "Stored object key of the receipt photo; GET /sessions/{sessionId} returns a signed URL",
+            },
+            receiptImageKeys: {
+              type: "array",
+              items: { type: "string" },
+              description:
+                "Stored object keys of every photo of the last scan, in order",
+            },
             serviceFee: { type: "number" },
             total: { type: "number" },
-            status: { type: "string", enum: ["ACTIVE", "CLOSED", "CANCELED"] },
+            status: {
+              type: "string",
+              enum: ["ACTIVE", "CLOSED", "FINALIZED", "CANCELED"],
+            },
             createdAt: { type: "string" },
           },
         },
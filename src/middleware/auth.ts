@@ -126,3 +126,19 @@ export function authenticateToken(
     return res.status(401).json({ error: "Invalid or expired token" });
   }
 }
+
+/**
+ * EventSource cannot send an Authorization header, so streaming endpoints may
+ * pass the JWT as `?access_token=`. Copies it into the header for authenticateToken.
+ */
+export function acceptQueryToken(
+  req: Request,
+  _res: Response,
+  next: NextFunction
+) {
+  const token = req.query.access_token;
+  if (!req.headers["authorization"] && typeof token === "string" && token) {
+    req.headers["authorization"] = `Bearer ${token}`;
+  }
+  next();
+}
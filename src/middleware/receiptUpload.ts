@@ -0,0 +1,79 @@
+import express from "express";
+import type { Request, Response, NextFunction } from "express";
+import multer from "multer";
+
+/** Largest receipt file accepted by /sessions/scan (multipart or base64 JSON) */
+export const RECEIPT_MAX_BYTES = Number(
+  process.env.RECEIPT_MAX_BYTES || 10 * 1024 * 1024
+); // default 10MB
+
+/** Most photos accepted for one receipt */
+export const RECEIPT_MAX_IMAGES = Number(process.env.RECEIPT_MAX_IMAGES || 5);
+
+export const RECEIPT_MIME_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/heic",
+  "image/heif",
+  "application/pdf",
+] as const;
+
+export function isReceiptMimeType(mime: string): boolean {
+  return (RECEIPT_MIME_TYPES as readonly string[]).includes(mime.toLowerCase());
+}
+
+/** Photos multer leaves on req.files (in order) for the scan route */
+export function receiptFiles(req: Request): Express.Multer.File[] {
+  return Array.isArray(req.files) ? req.files : [];
+}
+
+class UnsupportedReceiptType extends Error {}
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: RECEIPT_MAX_BYTES, files: RECEIPT_MAX_IMAGES },
+  fileFilter: (_req, file, cb) => {
+    if (isReceiptMimeType(file.mimetype)) return cb(null, true);
+    cb(new UnsupportedReceiptType(file.mimetype));
+  },
+});
+
+/**
+ * Accepts the receipt as multipart/form-data (file field `image`, repeated once
+ * per photo in order); JSON requests pass through untouched. Multer errors are
+ * answered here as 400/413.
+ */
+export function receiptUpload(req: Request, res: Response, next: NextFunction) {
+  upload.array("image", RECEIPT_MAX_IMAGES)(req, res, (err: unknown) => {
+    if (!err) return next();
+    if (err instanceof UnsupportedReceiptType)
+      return res.status(400).json({
+        error: `Unsupported file type (allowed: ${RECEIPT_MIME_TYPES.join(
+          ", "
+        )})`,
+      });
+    if (err instanceof multer.MulterError) {
+      if (err.code === "LIMIT_FILE_SIZE")
+        return res.status(413).json({ error: "File too large" });
+      return res.status(400).json({ error: err.message });
+    }
+    return next(err);
+  });
+}
+
+/** The scan route, which the app-level JSON parser leaves to scanJsonParser */
+export function isScanPath(path: string): boolean {
+  return /^\/sessions\/scan\/?$/.test(path);
+}
+
+/**
+ * JSON parser for the legacy base64 body of /sessions/scan, sized for one file
+ * of RECEIPT_MAX_BYTES (base64 adds a third). Mounted on the route after
+ * authenticateToken so anonymous callers can't make the server buffer large
+ * bodies; clients sending several photos should use multipart, which streams
+ * each file against its own limit.
+ */
+export const scanJsonParser = express.json({
+  limit: Math.ceil((RECEIPT_MAX_BYTES * 4) / 3) + 64 * 1024,
+});
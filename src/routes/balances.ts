@@ -0,0 +1,300 @@
+import { Router } from "express";
+import type { Response } from "express";
+import { prisma } from "../config/prisma.js";
+import { authenticateToken, type AuthRequest } from "../middleware/auth.js";
+import type { SettlementStatus } from "@prisma/client";
+import {
+  netBalancesFor,
+  settlementLines,
+  type LedgerLine,
+} from "../services/ledger.js";
+import { fromMinorUnits, toMinorUnits } from "../utils/currency.js";
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Balances
+ *   description: Net debts between users, rolled up from finalized sessions (canceled sessions excluded)
+ */
+
+/** Helper to select public fields */
+const userPublicSelect = {
+  id: true,
+  uniqueId: true,
+  username: true,
+  avatarUrl: true,
+} as const;
+
+/** Helper: ledger lines where the user is debtor or creditor (optionally only with one counterparty) */
+async function loadLedgerLines(userId: number, otherId?: number) {
+  const rows = await prisma.ledgerEntry.findMany({
+    where: {
+      // Debts from a canceled session no longer count
+      session: { status: { not: "CANCELED" } },
+      OR:
+        otherId == null
+          ? [{ debtorId: userId }, { creditorId: userId }]
+          : [
+              { debtorId: userId, creditorId: otherId },
+              { debtorId: otherId, creditorId: userId },
+            ],
+    },
+    orderBy: { createdAt: "desc" },
+    select: {
+      sessionId: true,
+      debtorId: true,
+      creditorId: true,
+      amount: true,
+      currency: true,
+      createdAt: true,
+      session: { select: { name: true } },
+    },
+  });
+  return rows.map((r) => ({
+    ...r,
+    amount: r.amount.toNumber(),
+  }));
+}
+
+/** Helper: settlements between the user and anyone (or one counterparty), newest first */
+async function loadSettlements(
+  userId: number,
+  otherId?: number,
+  status?: SettlementStatus
+) {
+  const rows = await prisma.settlement.findMany({
+    where: {
+      ...(status ? { status } : {}),
+      OR:
+        otherId == null
+          ? [{ payerId: userId }, { payeeId: userId }]
+          : [
+              { payerId: userId, payeeId: otherId },
+              { payerId: otherId, payeeId: userId },
+            ],
+    },
+    orderBy: { createdAt: "desc" },
+    select: {
+      id: true,
+      payerId: true,
+      payeeId: true,
+      amount: true,
+      currency: true,
+      status: true,
+      createdAt: true,
+    },
+  });
+  return rows.map((r) => ({ ...r, amount: r.amount.toNumber() }));
+}
+
+/**
+ * @swagger
+ * /balances:
+ *   get:
+ *     summary: Net balance with everyone the current user has split a bill with
+ *     description: Positive `net` means the other user owes you, negative means you owe them. Confirmed settlements are taken into account. One row per user and currency; settled pairs are omitted.
+ *     tags: [Balances]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Balances per counterparty plus per-currency totals
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 balances:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id: { type: integer }
+ *                       uniqueId: { type: string }
+ *                       username: { type: string }
+ *                       avatarUrl: { type: string, nullable: true }
+ *                       currency: { type: string }
+ *                       net: { type: number }
+ *                 totals:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       currency: { type: string }
+ *                       owedToYou: { type: number }
+ *                       youOwe: { type: number }
+ *                       net: { type: number }
+ */
+router.get("/", authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+    const userId = req.user.id;
+    const lines: LedgerLine[] = [
+      ...(await loadLedgerLines(userId)),
+      ...settlementLines(await loadSettlements(userId, undefined, "CONFIRMED")),
+    ];
+    const nets = netBalancesFor(userId, lines);
+
+    const users = await prisma.user.findMany({
+      where: { id: { in: Array.from(new Set(nets.map((n) => n.userId))) } },
+      select: userPublicSelect,
+    });
+    const userById = new Map(users.map((u) => [u.id, u]));
+    const balances = nets.map((n) => {
+      const u = userById.get(n.userId);
+      return {
+        id: n.userId,
+        uniqueId: u?.uniqueId ?? "",
+        username: u?.username ?? "",
+        avatarUrl: u?.avatarUrl ?? undefined,
+        currency: n.currency,
+        net: n.net,
+      };
+    });
+
+    const totalsMinor = new Map<
+      string,
+      { owedToYou: number; youOwe: number }
+    >();
+    for (const n of nets) {
+      const t = totalsMinor.get(n.currency) || { owedToYou: 0, youOwe: 0 };
+      const minor = toMinorUnits(n.net, n.currency);
+      if (minor > 0) t.owedToYou += minor;
+      else t.youOwe -= minor;
+      totalsMinor.set(n.currency, t);
+    }
+    const totals = [...totalsMinor.entries()].map(([currency, t]) => ({
+      currency,
+      owedToYou: fromMinorUnits(t.owedToYou, currency),
+      youOwe: fromMinorUnits(t.youOwe, currency),
+      net: fromMinorUnits(t.owedToYou - t.youOwe, currency),
+    }));
+
+    return res.json({ balances, totals });
+  } catch (err) {
+    console.error("GET /balances error:", err);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+/**
+ * @swagger
+ * /balances/{uniqueId}:
+ *   get:
+ *     summary: Net balance and ledger history between the current user and one other user
+ *     tags: [Balances]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uniqueId
+ *         schema:
+ *           type: string
+ *         required: true
+ *     responses:
+ *       200:
+ *         description: Per-currency net balance (positive = they owe you) and the session entries behind it
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 user:
+ *                   type: object
+ *                   properties:
+ *                     id: { type: integer }
+ *                     uniqueId: { type: string }
+ *                     username: { type: string }
+ *                     avatarUrl: { type: string, nullable: true }
+ *                 balances:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       currency: { type: string }
+ *                       net: { type: number }
+ *                 entries:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       sessionId: { type: integer }
+ *                       sessionName: { type: string, nullable: true }
+ *                       currency: { type: string }
+ *                       amount: { type: number, description: "Positive when they owe you" }
+ *                       createdAt: { type: string, format: date-time }
+ *                 settlements:
+ *                   type: array
+ *                   description: Recorded payments between the two users (only CONFIRMED ones affect the balance)
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id: { type: integer }
+ *                       direction: { type: string, enum: [sent, received] }
+ *                       amount: { type: number }
+ *                       currency: { type: string }
+ *                       status: { type: string, enum: [PENDING, CONFIRMED, DISPUTED] }
+ *                       createdAt: { type: string, format: date-time }
+ *       404:
+ *         description: User not found
+ */
+router.get(
+  "/:uniqueId",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+      const uniqueId = String(req.params.uniqueId || "").trim();
+      if (!uniqueId) return res.status(400).json({ error: "Invalid uniqueId" });
+
+      const other = await prisma.user.findUnique({
+        where: { uniqueId },
+        select: userPublicSelect,
+      });
+      if (!other) return res.status(404).json({ error: "User not found" });
+      if (other.id === req.user.id)
+        return res
+          .status(400)
+          .json({ error: "Cannot query balance with yourself" });
+
+      const lines = await loadLedgerLines(req.user.id, other.id);
+      const settlements = await loadSettlements(req.user.id, other.id);
+      const balances = netBalancesFor(req.user.id, [
+        ...lines,
+        ...settlementLines(
+          settlements.filter((st) => st.status === "CONFIRMED")
+        ),
+      ]).map((n) => ({
+        currency: n.currency,
+        net: n.net,
+      }));
+      const entries = lines.map((l) => ({
+        sessionId: l.sessionId,
+        sessionName: l.session.name,
+        currency: l.currency,
+        amount: l.creditorId === req.user!.id ? l.amount : -l.amount,
+        createdAt: l.createdAt.toISOString(),
+      }));
+      return res.json({
+        user: { ...other, avatarUrl: other.avatarUrl ?? undefined },
+        balances,
+        entries,
+        settlements: settlements.map((st) => ({
+          id: st.id,
+          direction: st.payerId === req.user!.id ? "sent" : "received",
+          amount: st.amount,
+          currency: st.currency,
+          status: st.status,
+          createdAt: st.createdAt.toISOString(),
+        })),
+      });
+    } catch (err) {
+      console.error("GET /balances/:uniqueId error:", err);
+      return res.status(500).json({ error: "Server error" });
+    }
+  }
+);
+
+export default router;
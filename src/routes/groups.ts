@@ -3,6 +3,14 @@ import type { Response } from "express";
 import { prisma } from "../config/prisma.js";
 import jwt from "jsonwebtoken";
 import { authenticateToken, type AuthRequest } from "../middleware/auth.js";
+import { loadGroupLedgerLines } from "../services/groupBalances.js";
+import {
+  finalizedSessionFacts,
+  summarizeGroupSpend,
+  type FinalizedSessionFacts,
+} from "../services/groupSummary.js";
+import { netPositions, payloadShares } from "../services/ledger.js";
+import { planSettlements } from "../services/settlement.js";
 
 const router = Router();
 
@@ -295,6 +303,314 @@ router.get(
   }
 );
 
+/**
+ * @swagger
+ * /groups/{groupId}/settle-plan:
+ *   get:
+ *     summary: Minimal set of transfers that settles every balance from the group's finalized sessions
+ *     description: Balances come from the debt ledger of each finalized session in the group, minus confirmed settlements recorded for the group, and are settled separately per currency.
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Net balances and planned transfers
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 group:
+ *                   type: object
+ *                   properties:
+ *                     id: { type: integer }
+ *                     name: { type: string }
+ *                 balances:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id: { type: integer }
+ *                       uniqueId: { type: string }
+ *                       username: { type: string }
+ *                       currency: { type: string }
+ *                       net: { type: number, description: "Positive = is owed money, negative = owes money" }
+ *                 transfers:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       currency: { type: string }
+ *                       from: { type: object, properties: { id: { type: integer }, uniqueId: { type: string }, username: { type: string } } }
+ *                       to: { type: object, properties: { id: { type: integer }, uniqueId: { type: string }, username: { type: string } } }
+ *                       amount: { type: number }
+ *             example:
+ *               group: { id: 10, name: "Trip" }
+ *               balances:
+ *                 - { id: 1, uniqueId: "#1111", username: "alice", currency: "USD", net: 30 }
+ *                 - { id: 2, uniqueId: "#2222", username: "bob", currency: "USD", net: -30 }
+ *               transfers:
+ *                 - currency: "USD"
+ *                   from: { id: 2, uniqueId: "#2222", username: "bob" }
+ *                   to: { id: 1, uniqueId: "#1111", username: "alice" }
+ *                   amount: 30
+ */
+router.get(
+  "/:groupId/settle-plan",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+      const groupId = Number(req.params.groupId);
+      if (!Number.isFinite(groupId))
+        return res.status(400).json({ error: "Invalid groupId" });
+
+      const me = req.user.id;
+      const group = await prisma.group.findUnique({
+        where: { id: groupId },
+        select: {
+          id: true,
+          name: true,
+          ownerId: true,
+          members: { where: { userId: me }, select: { userId: true } },
+        },
+      });
+      if (!group) return res.status(404).json({ error: "Group not found" });
+      if (group.ownerId !== me && group.members.length === 0)
+        return res.status(403).json({ error: "Forbidden" });
+
+      const positions = netPositions(await loadGroupLedgerLines(groupId));
+      const transfers = planSettlements(positions);
+
+      const users = await prisma.user.findMany({
+        where: {
+          id: { in: Array.from(new Set(positions.map((p) => p.userId))) },
+        },
+        select: { id: true, uniqueId: true, username: true },
+      });
+      const userById = new Map(users.map((u) => [u.id, u]));
+      const userRef = (id: number) => ({
+        id,
+        uniqueId: userById.get(id)?.uniqueId ?? "",
+        username: userById.get(id)?.username ?? "",
+      });
+
+      return res.json({
+        group: { id: group.id, name: group.name },
+        balances: positions.map((p) => ({
+          ...userRef(p.userId),
+          currency: p.currency,
+          net: p.net,
+        })),
+        transfers: transfers.map((t) => ({
+          currency: t.currency,
+          from: userRef(t.fromUserId),
+          to: userRef(t.toUserId),
+          amount: t.amount,
+        })),
+      });
+    } catch (err) {
+      console.error("GET /groups/:groupId/settle-plan error:", err);
+      return res.status(500).json({ error: "Server error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /groups/{groupId}/summary:
+ *   get:
+ *     summary: Expense dashboard for a group - spend per currency and member, outstanding balances, recent sessions, monthly trend
+ *     description: |
+ *       Spend figures cover the group's finalized sessions (`Session.groupId`); canceled sessions are left out. `spent` is the sum of a member's shares as stored at finalize, `paid` what they paid up front
+ *       (the creator for sessions finalized before multiple payers existed). `balances` are the same net positions as `/groups/{groupId}/settle-plan`.
+ *       Monthly buckets use the UTC month of finalization.
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: recent
+ *         description: How many recent sessions to return
+ *         schema:
+ *           type: integer
+ *           default: 5
+ *           maximum: 20
+ *     responses:
+ *       200:
+ *         description: Group summary
+ *         content:
+ *           application/json:
+ *             example:
+ *               group: { id: 10, name: "Trip" }
+ *               sessions: { total: 3, finalized: 2 }
+ *               totals:
+ *                 - { currency: "JPY", total: 4600, sessions: 1 }
+ *                 - { currency: "USD", total: 30.3, sessions: 1 }
+ *               members:
+ *                 - { id: 1, uniqueId: "#1111", username: "alice", currency: "USD", spent: 10.1, paid: 30.3 }
+ *                 - { id: 2, uniqueId: "#2222", username: "bob", currency: "USD", spent: 20.2, paid: 0 }
+ *               balances:
+ *                 - { id: 1, uniqueId: "#1111", username: "alice", currency: "USD", net: 20.2 }
+ *                 - { id: 2, uniqueId: "#2222", username: "bob", currency: "USD", net: -20.2 }
+ *               recentSessions:
+ *                 - { id: 7, name: "Dinner", status: "FINALIZED", currency: "USD", total: 30.3, createdAt: "2025-10-31T20:00:00.000Z", finalizedAt: "2025-10-31T23:30:00.000Z" }
+ *               monthly:
+ *                 - { month: "2025-10", currency: "USD", total: 30.3, sessions: 1 }
+ *                 - { month: "2025-11", currency: "JPY", total: 4600, sessions: 1 }
+ *       403:
+ *         description: Not a member of the group
+ *       404:
+ *         description: Group not found
+ */
+router.get(
+  "/:groupId/summary",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+      const groupId = Number(req.params.groupId);
+      if (!Number.isFinite(groupId))
+        return res.status(400).json({ error: "Invalid groupId" });
+      const recent = Math.min(Math.max(Number(req.query.recent) || 5, 1), 20);
+
+      const me = req.user.id;
+      const group = await prisma.group.findUnique({
+        where: { id: groupId },
+        select: {
+          id: true,
+          name: true,
+          ownerId: true,
+          members: { where: { userId: me }, select: { userId: true } },
+        },
+      });
+      if (!group) return res.status(404).json({ error: "Group not found" });
+      if (group.ownerId !== me && group.members.length === 0)
+        return res.status(403).json({ error: "Forbidden" });
+
+      const [sessions, ledgerLines] = await Promise.all([
+        prisma.session.findMany({
+          where: { groupId },
+          orderBy: { createdAt: "desc" },
+          select: {
+            id: true,
+            name: true,
+            status: true,
+            currency: true,
+            total: true,
+            createdAt: true,
+            creatorId: true,
+            historyEntry: {
+              select: {
+                grandTotal: true,
+                currency: true,
+                finalizedAt: true,
+                payload: true,
+              },
+            },
+            payers: { select: { userId: true, amount: true } },
+          },
+        }),
+        loadGroupLedgerLines(groupId),
+      ]);
+
+      const counted = sessions.filter(
+        (s) => s.historyEntry && s.status !== "CANCELED"
+      );
+      const shareholders = await prisma.user.findMany({
+        where: {
+          uniqueId: {
+            in: Array.from(
+              new Set(
+                counted.flatMap((s) =>
+                  payloadShares(s.historyEntry!.payload).map((p) => p.uniqueId)
+                )
+              )
+            ),
+          },
+        },
+        select: { id: true, uniqueId: true },
+      });
+      const idByUniqueId = new Map(shareholders.map((u) => [u.uniqueId, u.id]));
+      const finalized: FinalizedSessionFacts[] = counted.map((s) =>
+        finalizedSessionFacts(
+          {
+            id: s.id,
+            creatorId: s.creatorId,
+            currency: s.historyEntry!.currency,
+            grandTotal: s.historyEntry!.grandTotal.toNumber(),
+            finalizedAt: s.historyEntry!.finalizedAt,
+            payload: s.historyEntry!.payload,
+            payers: s.payers.map((p) => ({
+              userId: p.userId,
+              amount: p.amount.toNumber(),
+            })),
+          },
+          idByUniqueId
+        )
+      );
+      const spend = summarizeGroupSpend(finalized);
+      const positions = netPositions(ledgerLines);
+
+      const userIds = new Set([
+        ...spend.members.map((m) => m.userId),
+        ...positions.map((p) => p.userId),
+      ]);
+      const users = await prisma.user.findMany({
+        where: { id: { in: Array.from(userIds) } },
+        select: { id: true, uniqueId: true, username: true },
+      });
+      const userById = new Map(users.map((u) => [u.id, u]));
+      const userRef = (id: number) => ({
+        id,
+        uniqueId: userById.get(id)?.uniqueId ?? "",
+        username: userById.get(id)?.username ?? "",
+      });
+
+      return res.json({
+        group: { id: group.id, name: group.name },
+        sessions: { total: sessions.length, finalized: finalized.length },
+        totals: spend.totals,
+        members: spend.members.map((m) => ({
+          ...userRef(m.userId),
+          currency: m.currency,
+          spent: m.spent,
+          paid: m.paid,
+        })),
+        balances: positions.map((p) => ({
+          ...userRef(p.userId),
+          currency: p.currency,
+          net: p.net,
+        })),
+        recentSessions: sessions.slice(0, recent).map((s) => ({
+          id: s.id,
+          name: s.name,
+          status: s.status,
+          currency: s.historyEntry?.currency ?? s.currency,
+          total: (s.historyEntry?.grandTotal ?? s.total).toNumber(),
+          createdAt: s.createdAt.toISOString(),
+          finalizedAt: s.historyEntry?.finalizedAt.toISOString() ?? null,
+        })),
+        monthly: spend.monthly,
+      });
+    } catch (err) {
+      console.error("GET /groups/:groupId/summary error:", err);
+      return res.status(500).json({ error: "Server error" });
+    }
+  }
+);
+
 /**
  * @swagger
  * /groups/lookup:
@@ -0,0 +1,334 @@
+import { Router } from "express";
+import type { Response } from "express";
+import { prisma } from "../config/prisma.js";
+import type { Prisma } from "@prisma/client";
+import { authenticateToken, type AuthRequest } from "../middleware/auth.js";
+import { getSessionAccess } from "../services/sessionAccess.js";
+import { editConflict } from "../services/sessionLifecycle.js";
+import { publishSessionEvent } from "../services/sessionEvents.js";
+
+// Mounted by the sessions router at /sessions/:sessionId/items/:itemId/assignments
+const router = Router({ mergeParams: true });
+
+/** Fields returned for stored item assignments */
+const assignmentSelect = {
+  itemId: true,
+  units: true,
+  createdAt: true,
+  user: { select: { id: true, uniqueId: true, username: true } },
+} as const;
+
+function serializeAssignment(a: {
+  itemId: number;
+  units: Prisma.Decimal | null;
+  createdAt: Date;
+  user: { id: number; uniqueId: string; username: string };
+}) {
+  return {
+    itemId: String(a.itemId),
+    userId: a.user.id,
+    uniqueId: a.user.uniqueId,
+    username: a.user.username,
+    units: a.units ? a.units.toNumber() : null,
+    createdAt: a.createdAt.toISOString(),
+  };
+}
+
+/** Helper: parse path ids and load the item together with the caller's session access */
+async function loadItemContext(req: AuthRequest, res: Response) {
+  const sessionId = Number(req.params.sessionId);
+  const itemId = Number(req.params.itemId);
+  if (!Number.isFinite(sessionId)) {
+    res.status(400).json({ error: "Invalid sessionId" });
+    return null;
+  }
+  if (!Number.isFinite(itemId)) {
+    res.status(400).json({ error: "Invalid itemId" });
+    return null;
+  }
+  const access = await getSessionAccess(sessionId, req.user!.id);
+  if (!access) {
+    res.status(404).json({ error: "Session not found" });
+    return null;
+  }
+  if (!access.canView) {
+    res.status(403).json({ error: "Forbidden" });
+    return null;
+  }
+  const item = await prisma.receiptItem.findUnique({
+    where: { id: itemId },
+    select: { id: true, sessionId: true, quantity: true },
+  });
+  if (!item || item.sessionId !== sessionId) {
+    res.status(404).json({ error: "Item not found" });
+    return null;
+  }
+  return { access, item };
+}
+
+/**
+ * @swagger
+ * /sessions/{sessionId}/items/{itemId}/assignments:
+ *   get:
+ *     summary: List who has claimed a receipt item
+ *     tags: [Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *       - in: path
+ *         name: itemId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *     responses:
+ *       200:
+ *         description: Item assignments
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   itemId: { type: string }
+ *                   userId: { type: integer }
+ *                   uniqueId: { type: string }
+ *                   username: { type: string }
+ *                   units: { type: number, nullable: true }
+ *                   createdAt: { type: string, format: date-time }
+ */
+router.get("/", authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+    const ctx = await loadItemContext(req, res);
+    if (!ctx) return;
+
+    const assignments = await prisma.itemAssignment.findMany({
+      where: { itemId: ctx.item.id },
+      orderBy: { createdAt: "asc" },
+      select: assignmentSelect,
+    });
+    return res.json(assignments.map(serializeAssignment));
+  } catch (err) {
+    console.error(
+      "GET /sessions/:sessionId/items/:itemId/assignments error:",
+      err
+    );
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+/**
+ * @swagger
+ * /sessions/{sessionId}/items/{itemId}/assignments:
+ *   post:
+ *     summary: Claim an item (or update the claimed units). Creator may assign other users by uniqueId.
+ *     tags: [Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *       - in: path
+ *         name: itemId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               uniqueId:
+ *                 type: string
+ *                 description: Defaults to the current user; other users can only be assigned by the session creator
+ *                 example: "#1234"
+ *               units:
+ *                 type: number
+ *                 nullable: true
+ *                 description: Units taken (count split). Omit to share the item equally with other claimers.
+ *     responses:
+ *       200:
+ *         description: Assignment stored (created or updated)
+ *       400:
+ *         description: Invalid units (non-positive or exceeding item quantity)
+ *       403:
+ *         description: Not allowed to claim for this session or user
+ *       409:
+ *         description: Session is not active (closed, finalized or canceled), or another claim on the item committed first (retry)
+ */
+router.post("/", authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+    const ctx = await loadItemContext(req, res);
+    if (!ctx) return;
+    const locked = editConflict(ctx.access.session.status);
+    if (locked) return res.status(409).json(locked);
+
+    let userId = req.user.id;
+    const uniqueId =
+      typeof req.body?.uniqueId === "string" ? req.body.uniqueId.trim() : "";
+    if (uniqueId) {
+      const target = await prisma.user.findUnique({
+        where: { uniqueId },
+        select: { id: true },
+      });
+      if (!target) return res.status(404).json({ error: "User not found" });
+      if (target.id !== req.user.id && !ctx.access.isCreator)
+        return res.status(403).json({ error: "Forbidden" });
+      userId = target.id;
+    }
+
+    let units: number | null = null;
+    if (req.body?.units != null) {
+      units = Number(req.body.units);
+      if (!Number.isFinite(units) || units <= 0)
+        return res.status(400).json({ error: "units must be positive" });
+    }
+
+    const sessionId = ctx.access.session.id;
+    const quantity = ctx.item.quantity.toNumber();
+    // Serializable: two claims reading the same item's units can't both commit,
+    // so the quantity check and the upsert act as one step
+    const result = await prisma.$transaction(
+      async (tx) => {
+        if (units != null) {
+          const others = await tx.itemAssignment.findMany({
+            where: { itemId: ctx.item.id, userId: { not: userId } },
+            select: { units: true },
+          });
+          const taken = others.reduce(
+            (s, a) => s + (a.units ? a.units.toNumber() : 0),
+            0
+          );
+          if (taken + units > quantity) return { left: quantity - taken };
+        }
+        // Claiming an item makes the user a session participant
+        await tx.sessionParticipant.upsert({
+          where: { sessionId_userId: { sessionId, userId } },
+          update: {},
+          create: { sessionId, userId },
+        });
+        const assignment = await tx.itemAssignment.upsert({
+          where: { itemId_userId: { itemId: ctx.item.id, userId } },
+          update: { units },
+          create: { itemId: ctx.item.id, userId, units },
+          select: assignmentSelect,
+        });
+        return { assignment };
+      },
+      { isolationLevel: "Serializable" }
+    );
+    if (!("assignment" in result)) {
+      return res.status(400).json({
+        error: `units exceed item quantity (${result.left} left)`,
+      });
+    }
+    const { assignment } = result;
+    console.log("/sessions item assign:", {
+      sessionId,
+      itemId: ctx.item.id,
+      userId,
+    });
+    const serialized = serializeAssignment(assignment);
+    publishSessionEvent(sessionId, "item.claimed", { assignment: serialized });
+    return res.json(serialized);
+  } catch (err) {
+    // Serialization failure: another claim on the item committed first
+    if ((err as any)?.code === "P2034")
+      return res
+        .status(409)
+        .json({ error: "Item was claimed concurrently; please retry" });
+    console.error(
+      "POST /sessions/:sessionId/items/:itemId/assignments error:",
+      err
+    );
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+/**
+ * @swagger
+ * /sessions/{sessionId}/items/{itemId}/assignments/{uniqueId}:
+ *   delete:
+ *     summary: Unclaim an item (self, or any user when called by the session creator)
+ *     tags: [Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *       - in: path
+ *         name: itemId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *       - in: path
+ *         name: uniqueId
+ *         schema:
+ *           type: string
+ *         required: true
+ *     responses:
+ *       200:
+ *         description: Assignment removed
+ */
+router.delete(
+  "/:uniqueId",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+      const ctx = await loadItemContext(req, res);
+      if (!ctx) return;
+      const locked = editConflict(ctx.access.session.status);
+      if (locked) return res.status(409).json(locked);
+      const uniqueId = String(req.params.uniqueId || "").trim();
+      if (!uniqueId) return res.status(400).json({ error: "Invalid uniqueId" });
+
+      const user = await prisma.user.findUnique({
+        where: { uniqueId },
+        select: { id: true },
+      });
+      if (!user) return res.json({ success: true, removed: false });
+      if (user.id !== req.user.id && !ctx.access.isCreator)
+        return res.status(403).json({ error: "Forbidden" });
+
+      const { count } = await prisma.itemAssignment.deleteMany({
+        where: { itemId: ctx.item.id, userId: user.id },
+      });
+      console.log("/sessions item unassign:", {
+        sessionId: ctx.access.session.id,
+        itemId: ctx.item.id,
+        userId: user.id,
+      });
+      if (count > 0) {
+        publishSessionEvent(ctx.access.session.id, "item.unclaimed", {
+          itemId: String(ctx.item.id),
+          uniqueId,
+        });
+      }
+      return res.json({ success: true, removed: count > 0 });
+    } catch (err) {
+      console.error(
+        "DELETE /sessions/:sessionId/items/:itemId/assignments/:uniqueId error:",
+        err
+      );
+      return res.status(500).json({ error: "Server error" });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,189 @@
+import { Router } from "express";
+import type { Response } from "express";
+import { prisma } from "../config/prisma.js";
+import { authenticateToken, type AuthRequest } from "../middleware/auth.js";
+import { getSessionAccess } from "../services/sessionAccess.js";
+import type { FinalizeDiff } from "../services/historyDiff.js";
+
+// Mounted by the sessions router at /sessions/:sessionId/history
+const router = Router({ mergeParams: true });
+
+/**
+ * @swagger
+ * /sessions/{sessionId}/history:
+ *   get:
+ *     summary: Every finalized version of a session, newest first, with the changes against the previous version
+ *     description: |
+ *       `affectsYou` marks versions that changed the caller's amount. `amountChangedAt` is set while the caller has an unacknowledged change
+ *       (see `POST /sessions/{sessionId}/history/acknowledge`). `fields=summary` leaves out each version's `payload`.
+ *     tags: [Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *       - in: query
+ *         name: fields
+ *         schema:
+ *           type: string
+ *           enum: [full, summary]
+ *           default: full
+ *     responses:
+ *       200:
+ *         description: Versions
+ *         content:
+ *           application/json:
+ *             example:
+ *               sessionId: 7
+ *               latestVersion: 2
+ *               amountChangedAt: "2025-11-01T09:00:00.000Z"
+ *               versions:
+ *                 - version: 2
+ *                   finalizedAt: "2025-11-01T09:00:00.000Z"
+ *                   finalizedBy: { uniqueId: "#1111", username: "alice" }
+ *                   grandTotal: 4600
+ *                   currency: "JPY"
+ *                   affectsYou: true
+ *                   changes:
+ *                     currency: "JPY"
+ *                     grandTotal: { before: 4600, after: 4600 }
+ *                     participants:
+ *                       - { uniqueId: "#1111", username: "alice", before: 2300, after: 1500, delta: -800 }
+ *                       - { uniqueId: "#2222", username: "bob", before: 2300, after: 3100, delta: 800 }
+ *                     items:
+ *                       - itemId: "32"
+ *                         name: "Beer"
+ *                         change: "changed"
+ *                         totalBefore: 1600
+ *                         totalAfter: 1600
+ *                         sharesBefore: [{ uniqueId: "#1111", share: 800 }, { uniqueId: "#2222", share: 800 }]
+ *                         sharesAfter: [{ uniqueId: "#2222", share: 1600 }]
+ *                 - version: 1
+ *                   finalizedAt: "2025-10-31T23:30:00.000Z"
+ *                   finalizedBy: { uniqueId: "#1111", username: "alice" }
+ *                   grandTotal: 4600
+ *                   currency: "JPY"
+ *                   affectsYou: false
+ *                   changes: null
+ *       403:
+ *         description: Not allowed to view the session
+ */
+router.get("/", authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+    const sessionId = Number(req.params.sessionId);
+    if (!Number.isFinite(sessionId))
+      return res.status(400).json({ error: "Invalid sessionId" });
+    const fields = String(req.query.fields ?? "full");
+    if (fields !== "full" && fields !== "summary")
+      return res.status(400).json({ error: "fields must be full or summary" });
+    const access = await getSessionAccess(sessionId, req.user.id);
+    if (!access) return res.status(404).json({ error: "Session not found" });
+    if (!access.canView) return res.status(403).json({ error: "Forbidden" });
+
+    const [me, participant, versions] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: req.user.id },
+        select: { uniqueId: true },
+      }),
+      prisma.sessionParticipant.findUnique({
+        where: { sessionId_userId: { sessionId, userId: req.user.id } },
+        select: { amountChangedAt: true },
+      }),
+      prisma.sessionHistoryVersion.findMany({
+        where: { sessionId },
+        orderBy: { version: "desc" },
+        select: {
+          version: true,
+          createdAt: true,
+          grandTotal: true,
+          currency: true,
+          diff: true,
+          payload: fields === "full",
+          finalizedBy: { select: { uniqueId: true, username: true } },
+        },
+      }),
+    ]);
+
+    return res.json({
+      sessionId,
+      latestVersion: versions[0]?.version ?? null,
+      amountChangedAt: participant?.amountChangedAt
+        ? participant.amountChangedAt.toISOString()
+        : null,
+      versions: versions.map((v) => {
+        const changes = (v.diff ?? null) as FinalizeDiff | null;
+        return {
+          version: v.version,
+          finalizedAt: v.createdAt.toISOString(),
+          finalizedBy: v.finalizedBy,
+          grandTotal: v.grandTotal.toNumber(),
+          currency: v.currency,
+          affectsYou:
+            !!changes &&
+            !!me &&
+            changes.participants.some((c) => c.uniqueId === me.uniqueId),
+          changes,
+          ...(fields === "full" ? { payload: v.payload } : {}),
+        };
+      }),
+    });
+  } catch (err) {
+    console.error("GET /sessions/:sessionId/history error:", err);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+/**
+ * @swagger
+ * /sessions/{sessionId}/history/acknowledge:
+ *   post:
+ *     summary: Clear the caller's "amount changed" flag after reviewing a re-finalize (participants only)
+ *     tags: [Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *     responses:
+ *       200:
+ *         description: Flag cleared
+ *       403:
+ *         description: Not a session participant
+ */
+router.post(
+  "/acknowledge",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+      const sessionId = Number(req.params.sessionId);
+      if (!Number.isFinite(sessionId))
+        return res.status(400).json({ error: "Invalid sessionId" });
+      const access = await getSessionAccess(sessionId, req.user.id);
+      if (!access) return res.status(404).json({ error: "Session not found" });
+      if (!access.isParticipant)
+        return res.status(403).json({ error: "Forbidden" });
+
+      await prisma.sessionParticipant.update({
+        where: { sessionId_userId: { sessionId, userId: req.user.id } },
+        data: { amountChangedAt: null },
+      });
+      return res.json({ success: true });
+    } catch (err) {
+      console.error(
+        "POST /sessions/:sessionId/history/acknowledge error:",
+        err
+      );
+      return res.status(500).json({ error: "Server error" });
+    }
+  }
+);
+
+export default router;
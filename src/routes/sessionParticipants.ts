@@ -0,0 +1,288 @@
+import { Router } from "express";
+import type { Response } from "express";
+import { prisma } from "../config/prisma.js";
+import { authenticateToken, type AuthRequest } from "../middleware/auth.js";
+import { getSessionAccess } from "../services/sessionAccess.js";
+import { editConflict } from "../services/sessionLifecycle.js";
+import {
+  closeSessionSubscriptions,
+  publishSessionEvent,
+} from "../services/sessionEvents.js";
+
+// Mounted by the sessions router at /sessions/:sessionId/participants
+const router = Router({ mergeParams: true });
+
+/** Helper: list participants of a session with public user fields */
+async function listParticipants(sessionId: number) {
+  const rows = await prisma.sessionParticipant.findMany({
+    where: { sessionId },
+    orderBy: { userId: "asc" },
+    select: {
+      amountOwed: true,
+      amountChangedAt: true,
+      user: {
+        select: { id: true, uniqueId: true, username: true, avatarUrl: true },
+      },
+    },
+  });
+  return rows.map((p) => ({
+    id: p.user.id,
+    uniqueId: p.user.uniqueId,
+    username: p.user.username,
+    avatarUrl: p.user.avatarUrl ?? undefined,
+    amountOwed: p.amountOwed.toNumber(),
+    amountChangedAt: p.amountChangedAt ? p.amountChangedAt.toISOString() : null,
+  }));
+}
+
+/**
+ * @swagger
+ * /sessions/{sessionId}/participants:
+ *   get:
+ *     summary: List session participants with their owed amounts
+ *     tags: [Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *     responses:
+ *       200:
+ *         description: Session participants
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   id: { type: integer }
+ *                   uniqueId: { type: string }
+ *                   username: { type: string }
+ *                   avatarUrl: { type: string, nullable: true }
+ *                   amountOwed: { type: number }
+ *                   amountChangedAt: { type: string, format: date-time, nullable: true, description: "Set when a re-finalize changed amountOwed and the participant has not acknowledged it" }
+ */
+router.get("/", authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+    const sessionId = Number(req.params.sessionId);
+    if (!Number.isFinite(sessionId))
+      return res.status(400).json({ error: "Invalid sessionId" });
+    const access = await getSessionAccess(sessionId, req.user.id);
+    if (!access) return res.status(404).json({ error: "Session not found" });
+    if (!access.canView) return res.status(403).json({ error: "Forbidden" });
+
+    return res.json(await listParticipants(sessionId));
+  } catch (err) {
+    console.error("GET /sessions/:sessionId/participants error:", err);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+/**
+ * @swagger
+ * /sessions/{sessionId}/participants:
+ *   post:
+ *     summary: Add participants by uniqueId and/or seed them from the session's group (creator; others may only add themselves)
+ *     tags: [Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               uniqueIds:
+ *                 type: array
+ *                 items: { type: string }
+ *                 example: ["#1234", "#5678"]
+ *               uniqueId:
+ *                 type: string
+ *                 example: "#1234"
+ *               fromGroup:
+ *                 type: boolean
+ *                 description: Add the owner and all members of the session's group
+ *     responses:
+ *       200:
+ *         description: Updated participants list
+ *       400:
+ *         description: Nothing to add, or session has no group for fromGroup
+ *       404:
+ *         description: Session or users not found
+ *       409:
+ *         description: Session is not active (closed, finalized or canceled)
+ */
+router.post("/", authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+    const sessionId = Number(req.params.sessionId);
+    if (!Number.isFinite(sessionId))
+      return res.status(400).json({ error: "Invalid sessionId" });
+    const access = await getSessionAccess(sessionId, req.user.id);
+    if (!access) return res.status(404).json({ error: "Session not found" });
+    if (!access.canView) return res.status(403).json({ error: "Forbidden" });
+    const locked = editConflict(access.session.status);
+    if (locked) return res.status(409).json(locked);
+
+    const rawIds: unknown[] = Array.isArray(req.body?.uniqueIds)
+      ? req.body.uniqueIds
+      : [];
+    if (req.body?.uniqueId != null) rawIds.push(req.body.uniqueId);
+    const uniqueIds = Array.from(
+      new Set(
+        rawIds
+          .filter((v): v is string => typeof v === "string")
+          .map((v) => v.trim())
+          .filter(Boolean)
+      )
+    );
+    const fromGroup = req.body?.fromGroup === true;
+    if (uniqueIds.length === 0 && !fromGroup)
+      return res
+        .status(400)
+        .json({ error: "uniqueIds or fromGroup is required" });
+
+    const userIds = new Set<number>();
+    if (uniqueIds.length > 0) {
+      const users = await prisma.user.findMany({
+        where: { uniqueId: { in: uniqueIds } },
+        select: { id: true, uniqueId: true },
+      });
+      const found = new Set(users.map((u) => u.uniqueId));
+      const missing = uniqueIds.filter((id) => !found.has(id));
+      if (missing.length > 0)
+        return res
+          .status(404)
+          .json({ error: `Users not found: ${missing.join(", ")}` });
+      for (const u of users) userIds.add(u.id);
+    }
+    if (fromGroup) {
+      const groupId = access.session.groupId;
+      if (groupId == null)
+        return res.status(400).json({ error: "Session has no group" });
+      const group = await prisma.group.findUnique({
+        where: { id: groupId },
+        select: { ownerId: true, members: { select: { userId: true } } },
+      });
+      if (!group) return res.status(404).json({ error: "Group not found" });
+      userIds.add(group.ownerId);
+      for (const m of group.members) userIds.add(m.userId);
+    }
+
+    // Non-creators may only add themselves
+    if (
+      !access.isCreator &&
+      (fromGroup || [...userIds].some((id) => id !== req.user!.id))
+    )
+      return res.status(403).json({ error: "Forbidden" });
+
+    const { count } = await prisma.sessionParticipant.createMany({
+      data: [...userIds].map((userId) => ({ sessionId, userId })),
+      skipDuplicates: true,
+    });
+    console.log("/sessions add participants:", { sessionId, added: count });
+    const participants = await listParticipants(sessionId);
+    if (count > 0) {
+      publishSessionEvent(sessionId, "participant.joined", {
+        participants: participants.filter((p) => userIds.has(p.id)),
+      });
+    }
+    return res.json({ added: count, participants });
+  } catch (err) {
+    console.error("POST /sessions/:sessionId/participants error:", err);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+/**
+ * @swagger
+ * /sessions/{sessionId}/participants/{uniqueId}:
+ *   delete:
+ *     summary: Remove a participant and their item claims (creator or self)
+ *     description: Also closes the removed user's open event streams for the session.
+ *     tags: [Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *       - in: path
+ *         name: uniqueId
+ *         schema:
+ *           type: string
+ *         required: true
+ *     responses:
+ *       200:
+ *         description: Participant removed
+ */
+router.delete(
+  "/:uniqueId",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+      const sessionId = Number(req.params.sessionId);
+      if (!Number.isFinite(sessionId))
+        return res.status(400).json({ error: "Invalid sessionId" });
+      const uniqueId = String(req.params.uniqueId || "").trim();
+      if (!uniqueId) return res.status(400).json({ error: "Invalid uniqueId" });
+
+      const access = await getSessionAccess(sessionId, req.user.id);
+      if (!access) return res.status(404).json({ error: "Session not found" });
+      const locked = editConflict(access.session.status);
+      if (locked) return res.status(409).json(locked);
+
+      const user = await prisma.user.findUnique({
+        where: { uniqueId },
+        select: { id: true },
+      });
+      if (!user) return res.json({ success: true, removed: false });
+      if (user.id !== req.user.id && !access.isCreator)
+        return res.status(403).json({ error: "Forbidden" });
+
+      const [, removed] = await prisma.$transaction([
+        prisma.itemAssignment.deleteMany({
+          where: { userId: user.id, item: { sessionId } },
+        }),
+        prisma.sessionParticipant.deleteMany({
+          where: { sessionId, userId: user.id },
+        }),
+      ]);
+      console.log("/sessions remove participant:", {
+        sessionId,
+        userId: user.id,
+      });
+      if (removed.count > 0) {
+        publishSessionEvent(sessionId, "participant.left", { uniqueId });
+        // The creator keeps stream access without a participant row
+        if (user.id !== access.session.creatorId) {
+          closeSessionSubscriptions(sessionId, user.id);
+        }
+      }
+      return res.json({ success: true, removed: removed.count > 0 });
+    } catch (err) {
+      console.error(
+        "DELETE /sessions/:sessionId/participants/:uniqueId error:",
+        err
+      );
+      return res.status(500).json({ error: "Server error" });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,158 @@
+import { Router } from "express";
+import type { Response } from "express";
+import { prisma } from "../config/prisma.js";
+import { authenticateToken, type AuthRequest } from "../middleware/auth.js";
+import { getSessionAccess } from "../services/sessionAccess.js";
+import {
+  renderSessionSummaryHtml,
+  signSummaryToken,
+} from "../services/sessionSummary.js";
+
+// Mounted by the sessions router at /sessions/:sessionId/summary
+const router = Router({ mergeParams: true });
+
+/**
+ * @swagger
+ * /sessions/{sessionId}/summary:
+ *   get:
+ *     summary: Printable HTML breakdown of a finalized session (items, who had what, fees, each person's total)
+ *     tags: [Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *     responses:
+ *       200:
+ *         description: HTML page
+ *         content:
+ *           text/html:
+ *             schema:
+ *               type: string
+ *       403:
+ *         description: Not allowed to view the session
+ *       409:
+ *         description: Session is not finalized yet
+ */
+router.get("/", authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+    const sessionId = Number(req.params.sessionId);
+    if (!Number.isFinite(sessionId))
+      return res.status(400).json({ error: "Invalid sessionId" });
+    const access = await getSessionAccess(sessionId, req.user.id);
+    if (!access) return res.status(404).json({ error: "Session not found" });
+    if (!access.canView) return res.status(403).json({ error: "Forbidden" });
+
+    const entry = await prisma.sessionHistoryEntry.findUnique({
+      where: { sessionId },
+    });
+    if (!entry)
+      return res.status(409).json({ error: "Session is not finalized" });
+
+    res.setHeader("Content-Type", "text/html; charset=utf-8");
+    return res.send(
+      renderSessionSummaryHtml({
+        ...entry,
+        grandTotal: entry.grandTotal.toNumber(),
+      })
+    );
+  } catch (err) {
+    console.error("GET /sessions/:sessionId/summary error:", err);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+/**
+ * @swagger
+ * /sessions/{sessionId}/summary/share:
+ *   post:
+ *     summary: Create an expiring public link to the session summary, for people without an account
+ *     description: The link works without authentication until it expires; anyone who can view the session may create one.
+ *     tags: [Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               expiresInSeconds:
+ *                 type: integer
+ *                 description: TTL in seconds (default 604800 = 7 days, max 30 days)
+ *     responses:
+ *       200:
+ *         description: Share link created
+ *         content:
+ *           application/json:
+ *             example:
+ *               token: "eyJhbGciOi..."
+ *               url: "https://api.example.com/shared/sessions/eyJhbGciOi..."
+ *               expiresAt: "2025-11-07T12:00:00.000Z"
+ *       409:
+ *         description: Session is not finalized (not yet, or canceled / reopened since)
+ */
+router.post(
+  "/share",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+      const sessionId = Number(req.params.sessionId);
+      if (!Number.isFinite(sessionId))
+        return res.status(400).json({ error: "Invalid sessionId" });
+      const access = await getSessionAccess(sessionId, req.user.id);
+      if (!access) return res.status(404).json({ error: "Session not found" });
+      if (!access.canView) return res.status(403).json({ error: "Forbidden" });
+
+      const entry = await prisma.sessionHistoryEntry.findUnique({
+        where: { sessionId },
+        select: { id: true },
+      });
+      // A canceled or reopened session keeps its entry, but must not be shared
+      if (!entry || access.session.status !== "FINALIZED")
+        return res.status(409).json({ error: "Session is not finalized" });
+
+      const ttl = Math.max(
+        300,
+        Math.min(30 * 86400, Number(req.body?.expiresInSeconds) || 7 * 86400)
+      );
+      const signed = signSummaryToken(sessionId, ttl);
+      if (!signed)
+        return res.status(500).json({ error: "Share secret missing" });
+
+      const baseUrl =
+        process.env.PUBLIC_BASE_URL || `${req.protocol}://${req.get("host")}`;
+      const url = `${baseUrl}/shared/sessions/${encodeURIComponent(
+        signed.token
+      )}`;
+
+      console.log("/sessions summary share created:", {
+        sessionId,
+        userId: req.user.id,
+        expiresAt: signed.expiresAt,
+      });
+      return res.json({
+        token: signed.token,
+        url,
+        expiresAt: signed.expiresAt.toISOString(),
+      });
+    } catch (err) {
+      console.error("POST /sessions/:sessionId/summary/share error:", err);
+      return res.status(500).json({ error: "Server error" });
+    }
+  }
+);
+
+export default router;
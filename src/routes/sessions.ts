@@ -2,11 +2,84 @@ import { Router } from "express";
 import type { Response } from "express";
 import { prisma } from "../config/prisma.js";
 import type { Prisma } from "@prisma/client";
-import { authenticateToken, type AuthRequest } from "../middleware/auth.js";
-import { parseReceipt } from "../services/receiptParser.js";
+import {
+  acceptQueryToken,
+  authenticateToken,
+  type AuthRequest,
+} from "../middleware/auth.js";
+import { parseReceipt, ReceiptParseError } from "../services/receiptParser.js";
+import {
+  ALLOCATION_COLUMNS,
+  allocationRows,
+  buildHistoryWorkbook,
+  participantSummary,
+  SUMMARY_COLUMNS,
+  toCsv,
+} from "../services/historyExport.js";
+import { diffFinalizations } from "../services/historyDiff.js";
+import {
+  buildHistorySearchText,
+  decodeHistoryCursor,
+  encodeHistoryCursor,
+  historyWhere,
+  HISTORY_ORDER,
+  parseHistoryFilters,
+  type HistoryCursor,
+} from "../services/historyQuery.js";
+import { buildSessionDebts } from "../services/ledger.js";
+import { getSessionAccess } from "../services/sessionAccess.js";
+import {
+  RECEIPT_MAX_BYTES,
+  RECEIPT_MAX_IMAGES,
+  RECEIPT_MIME_TYPES,
+  isReceiptMimeType,
+  receiptFiles,
+  receiptUpload,
+  scanJsonParser,
+} from "../middleware/receiptUpload.js";
+import {
+  receiptImageLink,
+  receiptImageLinks,
+  removeReceiptImages,
+  storeReceiptImages,
+  storedReceiptImages,
+} from "../services/receiptImages.js";
+import {
+  editConflict,
+  transition,
+  transitionSources,
+  type SessionTransition,
+} from "../services/sessionLifecycle.js";
+import {
+  publishSessionEvent,
+  subscribeToSession,
+} from "../services/sessionEvents.js";
+import {
+  AllocationError,
+  applyPayers,
+  buildSplitInput,
+  computeAllocation,
+  parseSplitRequest,
+  type AllocationInput,
+  type AllocationResult,
+  type ItemInput,
+  type ParticipantInfo,
+  type ParticipantPosition,
+  type PayerInput,
+  type SplitUser,
+} from "../services/allocation.js";
+import assignmentsRoutes from "./sessionAssignments.js";
+import participantsRoutes from "./sessionParticipants.js";
+import historyRoutes from "./sessionHistory.js";
+import summaryRoutes from "./sessionSummary.js";
 
 const router = Router();
 
+router.use("/:sessionId/items/:itemId/assignments", assignmentsRoutes);
+router.use("/:sessionId/participants", participantsRoutes);
+router.use("/:sessionId/summary", summaryRoutes);
+router.use("/:sessionId/history", historyRoutes);
+
 const DEFAULT_CURRENCY_CODE = "UNKNOWN";
 
 function normalizeCurrencyCode(input: unknown): string {
@@ -17,22 +90,118 @@ function normalizeCurrencyCode(input: unknown): string {
   return /^[A-Z]{3}$/.test(upper) ? upper : DEFAULT_CURRENCY_CODE;
 }
 
+/** Fields returned for persisted receipt items */
+const receiptItemSelect = {
+  id: true,
+  name: true,
+  price: true,
+  quantity: true,
+  totalPrice: true,
+  kind: true,
+  appliesToItemId: true,
+  percent: true,
+  page: true,
+} as const;
+
+/** Map a stored ReceiptItem to the same shape the parser returns (id = DB id) */
+function serializeReceiptItem(item: {
+  id: number;
+  name: string;
+  price: Prisma.Decimal;
+  quantity: Prisma.Decimal;
+  totalPrice: Prisma.Decimal;
+  kind: string | null;
+  appliesToItemId: number | null;
+  percent: Prisma.Decimal | null;
+  page: number | null;
+}) {
+  return {
+    id: String(item.id),
+    name: item.name,
+    unitPrice: item.price.toNumber(),
+    quantity: item.quantity.toNumber(),
+    totalPrice: item.totalPrice.toNumber(),
+    kind: item.kind,
+    page: item.page,
+    ...(item.kind?.toLowerCase() === "discount"
+      ? {
+          appliesTo:
+            item.appliesToItemId != null ? String(item.appliesToItemId) : null,
+          percent: item.percent ? item.percent.toNumber() : null,
+        }
+      : {}),
+  };
+}
+
+function serializeReceiptImage(image: {
+  page: number;
+  url: string;
+  expiresAt: Date | null;
+}) {
+  return {
+    page: image.page,
+    url: image.url,
+    expiresAt: image.expiresAt?.toISOString() ?? null,
+  };
+}
+
 /**
  * @swagger
  * /sessions/scan:
  *   post:
  *     summary: Parse receipt image (session creation + immediate normalized items)
+ *     description: |
+ *       Send the receipt as multipart/form-data (file field `image`) or, for older clients, as base64 JSON.
+ *       Accepted types: JPEG, PNG, WebP, HEIC/HEIF and PDF, up to `RECEIPT_MAX_BYTES` (default 10MB) each.
+ *
+ *       A long receipt can be sent as up to `RECEIPT_MAX_IMAGES` (default 5) photos in order (repeat `image`),
+ *       or as one multi-page PDF. The JSON body is capped at one `RECEIPT_MAX_BYTES` file in total, so send several
+ *       photos as multipart. Each photo is parsed separately and the results are
+ *       merged into one item list: lines repeated where consecutive photos overlap are kept once, and each item
+ *       reports the `page` it was read from.
+ *
+ *       Example (cURL):
+ *
+ *         curl -X POST "https://api.example.com/sessions/scan" \
+ *           -H "Authorization: Bearer <TOKEN>" \
+ *           -F "sessionName=Dinner" -F "language=en-US" \
+ *           -F "image=@/path/to/receipt-top.jpg" -F "image=@/path/to/receipt-bottom.jpg"
  *     tags: [Sessions]
  *     security:
  *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
- *         application/json:
+ *         multipart/form-data:
  *           schema:
  *             type: object
  *             required: [sessionName, language, image]
  *             properties:
+ *               sessionId:
+ *                 type: integer
+ *                 description: Scan into an existing session (creator only)
+ *               sessionName:
+ *                 type: string
+ *               language:
+ *                 type: string
+ *               image:
+ *                 type: array
+ *                 description: One file per photo, in order
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *           encoding:
+ *             image:
+ *               contentType: image/jpeg, image/png, image/webp, image/heic, image/heif, application/pdf
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [sessionName, language]
+ *             properties:
+ *               sessionId:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Scan into an existing session (creator only); replaces its items. Omit to create a new session.
  *               sessionName:
  *                 type: string
  *                 example: "Кафе на Октябрь"
@@ -49,9 +218,18 @@ function normalizeCurrencyCode(input: unknown): string {
  *                   data:
  *                     type: string
  *                     description: Base64 image data
+ *               images:
+ *                 type: array
+ *                 description: Several photos of one receipt in order (instead of `image`); all of them together must fit the one-file JSON limit, so prefer multipart
+ *                 items:
+ *                   type: object
+ *                   required: [mimeType, data]
+ *                   properties:
+ *                     mimeType: { type: string }
+ *                     data: { type: string, description: Base64 image data }
  *     responses:
  *       200:
- *         description: Parsed receipt items
+ *         description: Parsed receipt items (persisted as ReceiptItem rows; item ids are DB ids)
  *         content:
  *           application/json:
  *             schema:
@@ -60,6 +238,17 @@ function normalizeCurrencyCode(input: unknown): string {
  *                 sessionId: { type: integer }
  *                 sessionName: { type: string }
  *                 language: { type: string }
+ *                 receiptImageUrl: { type: string, nullable: true, description: "Short-lived signed URL of the uploaded photo (null when R2 is not configured)" }
+ *                 receiptImageExpiresAt: { type: string, format: date-time, nullable: true }
+ *                 receiptImages:
+ *                   type: array
+ *                   description: Signed URLs of every stored photo
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       page: { type: integer }
+ *                       url: { type: string }
+ *                       expiresAt: { type: string, format: date-time, nullable: true }
  *                 items:
  *                   type: array
  *                   items:
@@ -70,58 +259,231 @@ function normalizeCurrencyCode(input: unknown): string {
  *                       unitPrice: { type: number }
  *                       quantity: { type: number }
  *                       totalPrice: { type: number }
- *                       kind: { type: string, nullable: true }
+ *                       kind: { type: string, nullable: true, description: "item, fee, tip, tax, discount, other" }
+ *                       appliesTo: { type: string, nullable: true, description: "Discounts only: id of the discounted item (null = whole bill)" }
+ *                       percent: { type: number, nullable: true, description: "Discounts only: percent off" }
+ *                       page: { type: integer, nullable: true, description: "Photo the line was read from (1-based)" }
  *                 summary:
  *                   type: object
  *                   properties:
  *                     grandTotal: { type: number }
  *                     currency: { type: string, nullable: true, example: "USD" }
+ *       400:
+ *         description: Missing fields or unsupported file type
+ *       409:
+ *         description: Re-scanning a session that is not active
+ *       413:
+ *         description: File larger than RECEIPT_MAX_BYTES
+ *       502:
+ *         description: Some photos of a multi-photo receipt could not be read (nothing is saved; `pages` lists them)
  */
 router.post(
   "/scan",
   authenticateToken,
+  scanJsonParser,
+  receiptUpload,
   async (req: AuthRequest, res: Response) => {
     try {
       if (!req.user) return res.status(401).json({ error: "Unauthorized" });
-      const { sessionName, language, image } = req.body || {};
+      const { sessionId, sessionName, language, image, images } =
+        req.body || {};
       if (!sessionName || typeof sessionName !== "string") {
         return res.status(400).json({ error: "sessionName required" });
       }
       if (!language || typeof language !== "string") {
         return res.status(400).json({ error: "language required" });
       }
-      if (
-        !image ||
-        typeof image !== "object" ||
-        !image.mimeType ||
-        !image.data
-      ) {
-        return res
-          .status(400)
-          .json({ error: "image { mimeType, data } required" });
+      // Multipart upload (file field `image`, once per photo) or the older base64
+      // JSON body with `image` or an ordered `images` list
+      const files = receiptFiles(req);
+      const receipts: Array<{
+        mimeType: string;
+        buffer: Buffer;
+        base64: string;
+      }> = [];
+      if (files.length) {
+        for (const file of files) {
+          receipts.push({
+            mimeType: file.mimetype.toLowerCase(),
+            buffer: file.buffer,
+            base64: file.buffer.toString("base64"),
+          });
+        }
+      } else {
+        const list: unknown[] = Array.isArray(images)
+          ? images
+          : image
+          ? [image]
+          : [];
+        if (
+          !list.length ||
+          list.some(
+            (it: any) =>
+              !it || typeof it !== "object" || !it.mimeType || !it.data
+          )
+        ) {
+          return res.status(400).json({
+            error:
+              "image file(s), image { mimeType, data } or images [{ mimeType, data }] required",
+          });
+        }
+        if (list.length > RECEIPT_MAX_IMAGES)
+          return res
+            .status(400)
+            .json({ error: `At most ${RECEIPT_MAX_IMAGES} images per scan` });
+        for (const it of list as Array<{ mimeType: unknown; data: unknown }>) {
+          if (!isReceiptMimeType(String(it.mimeType)))
+            return res.status(400).json({
+              error: `Unsupported file type (allowed: ${RECEIPT_MIME_TYPES.join(
+                ", "
+              )})`,
+            });
+          const base64 = String(it.data);
+          const buffer = Buffer.from(base64, "base64");
+          if (buffer.length > RECEIPT_MAX_BYTES)
+            return res.status(413).json({ error: "File too large" });
+          receipts.push({
+            mimeType: String(it.mimeType).toLowerCase(),
+            buffer,
+            base64,
+          });
+        }
       }
 
-      // Create session (name field exists in schema but older DB may lack column; ignore until migration applied)
-      const session = await prisma.session.create({
-        data: {
-          creatorId: req.user.id,
-          status: "ACTIVE",
-        },
-        select: { id: true },
-      });
+      let session: {
+        id: number;
+        receiptImageUrl: string | null;
+        receiptImageKeys: string[];
+      };
+      if (sessionId != null && sessionId !== "") {
+        const sid = Number(sessionId);
+        if (!Number.isFinite(sid))
+          return res.status(400).json({ error: "Invalid sessionId" });
+        const existing = await prisma.session.findUnique({
+          where: { id: sid },
+          select: {
+            id: true,
+            creatorId: true,
+            status: true,
+            receiptImageUrl: true,
+            receiptImageKeys: true,
+          },
+        });
+        if (!existing)
+          return res.status(404).json({ error: "Session not found" });
+        if (existing.creatorId !== req.user.id)
+          return res.status(403).json({ error: "Forbidden" });
+        const locked = editConflict(existing.status);
+        if (locked) return res.status(409).json(locked);
+        session = {
+          id: existing.id,
+          receiptImageUrl: existing.receiptImageUrl,
+          receiptImageKeys: existing.receiptImageKeys,
+        };
+      } else {
+        session = await prisma.session.create({
+          data: {
+            creatorId: req.user.id,
+            name: sessionName,
+            status: "ACTIVE",
+          },
+          select: { id: true, receiptImageUrl: true, receiptImageKeys: true },
+        });
+      }
 
       const parseResult = await parseReceipt({
         language,
         sessionName,
-        mimeType: image.mimeType,
-        imageBase64: image.data,
+        images: receipts.map((r) => ({
+          mimeType: r.mimeType,
+          imageBase64: r.base64,
+        })),
       });
 
+      // Keep the original photos so participants can check them; a failed upload
+      // doesn't fail the scan (the previous photos, if any, stay linked).
+      let receiptKeys: string[] | null = null;
+      try {
+        receiptKeys = await storeReceiptImages(
+          session.id,
+          receipts.map((r) => ({ mimeType: r.mimeType, buffer: r.buffer }))
+        );
+      } catch (err) {
+        console.error("/sessions/scan receipt upload error:", err);
+      }
+
+      // Persist parsed items so the receipt can be reloaded without another model call.
+      // Re-scanning an existing session replaces its items (and their assignments).
+      // If that fails, the photos just uploaded have nothing pointing to them: drop them.
+      let storedItems;
+      try {
+        storedItems = await prisma.$transaction(async (tx) => {
+          await tx.itemAssignment.deleteMany({
+            where: { item: { sessionId: session.id } },
+          });
+          await tx.receiptItem.deleteMany({ where: { sessionId: session.id } });
+          await tx.session.update({
+            where: { id: session.id },
+            data: {
+              name: sessionName,
+              total: parseResult.summary.grandTotal,
+              currency: normalizeCurrencyCode(parseResult.summary.currency),
+              ...(receiptKeys
+                ? {
+                    receiptImageUrl: receiptKeys[0] ?? null,
+                    receiptImageKeys: receiptKeys,
+                  }
+                : {}),
+            },
+          });
+          const rows = await tx.receiptItem.createManyAndReturn({
+            data: parseResult.items.map((it) => ({
+              sessionId: session.id,
+              name: it.name,
+              price: it.unitPrice,
+              quantity: it.quantity,
+              totalPrice: it.totalPrice,
+              kind: it.kind ?? null,
+              percent: it.percent ?? null,
+              page: it.page ?? null,
+            })),
+            select: receiptItemSelect,
+          });
+          // Link line discounts to the DB id of the item they reduce (parser ids are per-response)
+          const dbIdByParsedId = new Map(
+            parseResult.items.map((it, idx) => [it.id, rows[idx]!.id])
+          );
+          for (const [idx, it] of parseResult.items.entries()) {
+            const target = it.appliesTo
+              ? dbIdByParsedId.get(it.appliesTo)
+              : null;
+            if (!target || target === rows[idx]!.id) continue;
+            rows[idx] = await tx.receiptItem.update({
+              where: { id: rows[idx]!.id },
+              data: { appliesToItemId: target },
+              select: receiptItemSelect,
+            });
+          }
+          return rows;
+        });
+      } catch (err) {
+        if (receiptKeys) await removeReceiptImages(receiptKeys);
+        throw err;
+      }
+      if (receiptKeys) await removeReceiptImages(storedReceiptImages(session));
+      const receiptImages = await receiptImageLinks(
+        receiptKeys ?? storedReceiptImages(session)
+      );
+      const receiptImage = receiptImages[0];
+
       return res.json({
         sessionId: session.id,
         sessionName,
         language,
-        items: parseResult.items,
+        receiptImageUrl: receiptImage?.url ?? null,
+        receiptImageExpiresAt: receiptImage?.expiresAt?.toISOString() ?? null,
+        receiptImages: receiptImages.map(serializeReceiptImage),
+        items: storedItems.map(serializeReceiptItem),
         summary: parseResult.summary,
         source: parseResult.source,
         ...(process.env.DEBUG_PARSE === "1" && parseResult.rawModelText
@@ -137,6 +499,11 @@ router.post(
           : {}),
       });
     } catch (err) {
+      if (err instanceof ReceiptParseError) {
+        return res
+          .status(err.statusCode)
+          .json({ error: err.message, pages: err.pages });
+      }
       console.error("POST /sessions/scan error", err);
       return res.status(500).json({ error: "Server error" });
     }
@@ -265,11 +632,42 @@ router.get("/", authenticateToken, async (req: AuthRequest, res: Response) => {
   }
 });
 
+/** Helper: apply a lifecycle transition for the session creator and broadcast the new status */
+async function changeStatus(
+  req: AuthRequest,
+  res: Response,
+  action: SessionTransition
+) {
+  if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+  const sessionId = Number(req.params.sessionId);
+  if (!Number.isFinite(sessionId))
+    return res.status(400).json({ error: "Invalid sessionId" });
+  const s = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { creatorId: true, status: true },
+  });
+  if (!s) return res.status(404).json({ error: "Session not found" });
+  if (s.creatorId !== req.user.id)
+    return res.status(403).json({ error: "Forbidden" });
+  const next = transition(s.status, action);
+  if ("error" in next) return res.status(409).json(next);
+
+  const updated = await prisma.session.update({
+    where: { id: sessionId },
+    data: { status: next.status },
+  });
+  console.log(`/sessions ${action}:`, { id: sessionId, from: s.status });
+  publishSessionEvent(sessionId, "session.status", {
+    status: updated.status,
+  });
+  return res.json(updated);
+}
+
 /**
  * @swagger
  * /sessions/{sessionId}/close:
  *   patch:
- *     summary: Close a session (creator only)
+ *     summary: Close an active session to further edits before finalizing (creator only)
  *     tags: [Sessions]
  *     security:
  *       - bearerAuth: []
@@ -282,16 +680,134 @@ router.get("/", authenticateToken, async (req: AuthRequest, res: Response) => {
  *     responses:
  *       200:
  *         description: Session closed
+ *       409:
+ *         description: Session is not active
  */
 router.patch(
   "/:sessionId/close",
   authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      return await changeStatus(req, res, "close");
+    } catch (err) {
+      console.error("PATCH /sessions/:sessionId/close error:", err);
+      return res.status(500).json({ error: "Server error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /sessions/{sessionId}/cancel:
+ *   patch:
+ *     summary: Cancel a session (creator only); a canceled session no longer counts towards balances
+ *     tags: [Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *     responses:
+ *       200:
+ *         description: Session canceled
+ *       409:
+ *         description: Session is already canceled
+ */
+router.patch(
+  "/:sessionId/cancel",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      return await changeStatus(req, res, "cancel");
+    } catch (err) {
+      console.error("PATCH /sessions/:sessionId/cancel error:", err);
+      return res.status(500).json({ error: "Server error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /sessions/{sessionId}/reopen:
+ *   patch:
+ *     summary: Reopen a closed, finalized or canceled session for edits (creator only)
+ *     description: The last finalize result stays in balances and history until the session is finalized again, which creates a new version.
+ *     tags: [Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *     responses:
+ *       200:
+ *         description: Session active again
+ *       409:
+ *         description: Session is already active
+ */
+router.patch(
+  "/:sessionId/reopen",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      return await changeStatus(req, res, "reopen");
+    } catch (err) {
+      console.error("PATCH /sessions/:sessionId/reopen error:", err);
+      return res.status(500).json({ error: "Server error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /sessions/{sessionId}/fees:
+ *   patch:
+ *     summary: Update the session service fee (creator only); broadcast to live listeners
+ *     tags: [Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [serviceFee]
+ *             properties:
+ *               serviceFee:
+ *                 type: number
+ *                 example: 300
+ *     responses:
+ *       200:
+ *         description: Session updated
+ *       409:
+ *         description: Session is not active (closed, finalized or canceled)
+ */
+router.patch(
+  "/:sessionId/fees",
+  authenticateToken,
   async (req: AuthRequest, res: Response) => {
     try {
       if (!req.user) return res.status(401).json({ error: "Unauthorized" });
       const sessionId = Number(req.params.sessionId);
       if (!Number.isFinite(sessionId))
         return res.status(400).json({ error: "Invalid sessionId" });
+      const serviceFee = Number(req.body?.serviceFee);
+      if (!Number.isFinite(serviceFee) || serviceFee < 0)
+        return res
+          .status(400)
+          .json({ error: "serviceFee must be a non-negative number" });
       const s = await prisma.session.findUnique({
         where: { id: sessionId },
         select: { creatorId: true, status: true },
@@ -299,15 +815,20 @@ router.patch(
       if (!s) return res.status(404).json({ error: "Session not found" });
       if (s.creatorId !== req.user.id)
         return res.status(403).json({ error: "Forbidden" });
+      const locked = editConflict(s.status);
+      if (locked) return res.status(409).json(locked);
 
       const updated = await prisma.session.update({
         where: { id: sessionId },
-        data: { status: "CLOSED" },
+        data: { serviceFee },
+      });
+      console.log("/sessions fees:", { id: sessionId, serviceFee });
+      publishSessionEvent(sessionId, "fees.updated", {
+        serviceFee: updated.serviceFee.toNumber(),
       });
-      console.log("/sessions close:", { id: sessionId });
       return res.json(updated);
     } catch (err) {
-      console.error("PATCH /sessions/:sessionId/close error:", err);
+      console.error("PATCH /sessions/:sessionId/fees error:", err);
       return res.status(500).json({ error: "Server error" });
     }
   }
@@ -315,48 +836,79 @@ router.patch(
 
 /**
  * @swagger
- * /sessions/finalize:
- *   post:
- *     summary: Finalize a session by computing allocations for provided items & participants (purely computational for now)
+ * /sessions/{sessionId}/events:
+ *   get:
+ *     summary: Live event stream for a session (Server-Sent Events; creator and participants)
+ *     description: |
+ *       Streams `text/event-stream` events: `connected`, `item.claimed`, `item.unclaimed`,
+ *       `participant.joined`, `participant.left`, `fees.updated`, `session.status`, `session.finalized`.
+ *       Browsers using EventSource (which cannot set headers) may pass the JWT as `?access_token=`.
+ *       The stream is closed when the user is removed from the session.
  *     tags: [Sessions]
  *     security:
  *       - bearerAuth: []
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required: [sessionId, participants, items]
- *             properties:
- *               currency: { type: string, example: "JPY", nullable: true }
- *               sessionId: { type: integer }
- *               sessionName: { type: string }
- *               participants:
- *                 type: array
- *                 items:
- *                   type: object
- *                   required: [uniqueId, username]
- *                   properties:
- *                     uniqueId: { type: string }
- *                     username: { type: string }
- *               items:
- *                 type: array
- *                 items:
- *                   type: object
- *                   required: [id, name, price, quantity, splitMode]
- *                   properties:
- *                     id: { type: string }
- *                     name: { type: string }
- *                     price: { type: number }
- *                     quantity: { type: number }
- *                     kind: { type: string, nullable: true }
- *                     splitMode: { type: string, enum: [equal, count] }
- *                     perPersonCount: { type: object, additionalProperties: { type: number } }
- *                     assignedTo: { type: array, items: { type: string } }
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *       - in: query
+ *         name: access_token
+ *         schema:
+ *           type: string
+ *         required: false
  *     responses:
  *       200:
- *         description: Finalized allocations
+ *         description: Event stream
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *       403:
+ *         description: Not a session participant
+ */
+router.get(
+  "/:sessionId/events",
+  acceptQueryToken,
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+      const sessionId = Number(req.params.sessionId);
+      if (!Number.isFinite(sessionId))
+        return res.status(400).json({ error: "Invalid sessionId" });
+      const access = await getSessionAccess(sessionId, req.user.id);
+      if (!access) return res.status(404).json({ error: "Session not found" });
+      if (!access.isCreator && !access.isParticipant)
+        return res.status(403).json({ error: "Forbidden" });
+
+      subscribeToSession(sessionId, req.user.id, res);
+    } catch (err) {
+      console.error("GET /sessions/:sessionId/events error:", err);
+      if (!res.headersSent)
+        return res.status(500).json({ error: "Server error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /sessions/{sessionId}/items:
+ *   get:
+ *     summary: Reload the stored receipt items of a scanned session with their assignments
+ *     tags: [Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *     responses:
+ *       200:
+ *         description: Stored receipt items with the detected summary
  *         content:
  *           application/json:
  *             schema:
@@ -365,25 +917,473 @@ router.patch(
  *                 sessionId: { type: integer }
  *                 sessionName: { type: string, nullable: true }
  *                 status: { type: string }
- *                 finalizedAt: { type: string, format: date-time }
- *                 createdAt: { type: string, format: date-time }
- *                 currency: { type: string }
- *                 totals:
+ *                 items:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id: { type: string }
+ *                       name: { type: string }
+ *                       unitPrice: { type: number }
+ *                       quantity: { type: number }
+ *                       totalPrice: { type: number }
+ *                       kind: { type: string, nullable: true }
+ *                       assignments:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *                           properties:
+ *                             uniqueId: { type: string }
+ *                             username: { type: string }
+ *                             units: { type: number, nullable: true }
+ *                 summary:
  *                   type: object
  *                   properties:
- *                     currency: { type: string }
  *                     grandTotal: { type: number }
- *                     byParticipant:
- *                       type: array
- *                       items:
- *                         type: object
- *                         properties:
- *                           uniqueId: { type: string }
- *                           username: { type: string }
- *                           amountOwed: { type: number }
- *                           participantId: { type: string }
- *                           total: { type: number }
- *                     byItem:
+ *                     currency: { type: string, example: "JPY" }
+ */
+router.get(
+  "/:sessionId/items",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+      const sessionId = Number(req.params.sessionId);
+      if (!Number.isFinite(sessionId))
+        return res.status(400).json({ error: "Invalid sessionId" });
+      const access = await getSessionAccess(sessionId, req.user.id);
+      if (!access) return res.status(404).json({ error: "Session not found" });
+      if (!access.canView) return res.status(403).json({ error: "Forbidden" });
+
+      const s = await prisma.session.findUniqueOrThrow({
+        where: { id: sessionId },
+        select: {
+          id: true,
+          name: true,
+          status: true,
+          total: true,
+          currency: true,
+          items: {
+            orderBy: { id: "asc" },
+            select: {
+              ...receiptItemSelect,
+              assignments: {
+                orderBy: { createdAt: "asc" },
+                select: {
+                  units: true,
+                  user: { select: { uniqueId: true, username: true } },
+                },
+              },
+            },
+          },
+        },
+      });
+
+      return res.json({
+        sessionId: s.id,
+        sessionName: s.name,
+        status: s.status,
+        items: s.items.map((it) => ({
+          ...serializeReceiptItem(it),
+          assignments: it.assignments.map((a) => ({
+            uniqueId: a.user.uniqueId,
+            username: a.user.username,
+            units: a.units ? a.units.toNumber() : null,
+          })),
+        })),
+        summary: { grandTotal: s.total.toNumber(), currency: s.currency },
+      });
+    } catch (err) {
+      console.error("GET /sessions/:sessionId/items error:", err);
+      return res.status(500).json({ error: "Server error" });
+    }
+  }
+);
+
+/** Unclaimed items of these kinds are shared equally by all session participants */
+const SHARED_BY_DEFAULT_KINDS = new Set(["fee", "tip", "tax"]);
+
+/**
+ * Build finalize input from stored ReceiptItems and ItemAssignments.
+ * Items where every claimer has units use the count split, otherwise equal.
+ */
+async function loadStoredSplit(
+  sessionId: number
+): Promise<
+  { items: ItemInput[]; participants: ParticipantInfo[] } | { error: string }
+> {
+  const [storedItems, storedParticipants] = await Promise.all([
+    prisma.receiptItem.findMany({
+      where: { sessionId },
+      orderBy: { id: "asc" },
+      select: {
+        id: true,
+        name: true,
+        price: true,
+        quantity: true,
+        kind: true,
+        appliesToItemId: true,
+        percent: true,
+        assignments: {
+          orderBy: { createdAt: "asc" },
+          select: { units: true, user: { select: { uniqueId: true } } },
+        },
+      },
+    }),
+    prisma.sessionParticipant.findMany({
+      where: { sessionId },
+      orderBy: { userId: "asc" },
+      select: { user: { select: { uniqueId: true, username: true } } },
+    }),
+  ]);
+  if (storedItems.length === 0) {
+    return { error: "items array required (no stored items for session)" };
+  }
+  const participants = storedParticipants.map((p) => ({
+    uniqueId: p.user.uniqueId,
+    username: p.user.username,
+  }));
+  const everyone = participants.map((p) => p.uniqueId);
+
+  const items: ItemInput[] = [];
+  const unassigned: string[] = [];
+  const unitMismatches: string[] = [];
+  for (const it of storedItems) {
+    const base = {
+      id: String(it.id),
+      name: it.name,
+      unitPrice: it.price.toNumber(),
+      quantity: it.quantity.toNumber(),
+      ...(it.kind ? { kind: it.kind } : {}),
+    };
+    if (it.kind?.toLowerCase() === "discount" || it.price.isNegative()) {
+      items.push({
+        ...base,
+        kind: "discount",
+        appliesTo:
+          it.appliesToItemId != null ? String(it.appliesToItemId) : null,
+        percent: it.percent ? it.percent.toNumber() : null,
+        ...(it.assignments.length > 0
+          ? { assignedTo: it.assignments.map((a) => a.user.uniqueId) }
+          : {}),
+      });
+      continue;
+    }
+    if (it.assignments.length === 0) {
+      const kind = (it.kind || "").toLowerCase();
+      if (SHARED_BY_DEFAULT_KINDS.has(kind) && everyone.length > 0) {
+        items.push({ ...base, splitMode: "equal", assignedTo: everyone });
+      } else {
+        unassigned.push(base.id);
+      }
+      continue;
+    }
+    if (it.assignments.every((a) => a.units != null)) {
+      const perPersonCount: Record<string, number> = {};
+      let claimed = 0;
+      for (const a of it.assignments) {
+        perPersonCount[a.user.uniqueId] = a.units!.toNumber();
+        claimed += a.units!.toNumber();
+      }
+      if (claimed !== base.quantity) {
+        unitMismatches.push(
+          `${it.name} (#${it.id}: ${claimed} of ${base.quantity} units claimed)`
+        );
+        continue;
+      }
+      items.push({ ...base, splitMode: "count", perPersonCount });
+    } else {
+      items.push({
+        ...base,
+        splitMode: "equal",
+        assignedTo: it.assignments.map((a) => a.user.uniqueId),
+      });
+    }
+  }
+  if (unassigned.length > 0) {
+    return { error: `Unassigned items: ${unassigned.join(", ")}` };
+  }
+  if (unitMismatches.length > 0) {
+    return {
+      error: `Claimed units must add up to each item's quantity: ${unitMismatches.join(
+        ", "
+      )}`,
+    };
+  }
+  return { items, participants };
+}
+
+/**
+ * Build the allocation input for finalize/preview from the request body.
+ * Without explicit items it falls back to the stored receipt items and their
+ * assignments (participants default to the session participants).
+ */
+async function prepareSplitInput(
+  body: Record<string, unknown>,
+  session: { id: number; currency: string; serviceFee: Prisma.Decimal }
+): Promise<
+  | {
+      input: AllocationInput;
+      payers: PayerInput[];
+      userByUniqueId: Map<string, SplitUser>;
+    }
+  | { error: string }
+> {
+  const hasItems = Array.isArray(body.items) && body.items.length > 0;
+  const stored = hasItems ? undefined : await loadStoredSplit(session.id);
+  if (stored && "error" in stored) return stored;
+  const request = parseSplitRequest(
+    body,
+    {
+      currency: normalizeCurrencyCode(body.currency ?? session.currency),
+      serviceFee: session.serviceFee.toNumber(),
+    },
+    stored
+  );
+  if ("error" in request) return request;
+
+  // Participants and payers must be real users; resolve their uniqueIds to User rows
+  const requestedIds = [
+    ...request.participants.map((p) => p.uniqueId),
+    ...request.payers.map((p) => p.uniqueId),
+  ];
+  const users = await prisma.user.findMany({
+    where: { uniqueId: { in: requestedIds } },
+    select: { id: true, uniqueId: true, username: true },
+  });
+  const userByUniqueId = new Map(users.map((u) => [u.uniqueId, u]));
+  const built = buildSplitInput(request, userByUniqueId);
+  if ("error" in built) return built;
+  return { ...built, userByUniqueId };
+}
+
+/** `totals` block of the finalize/preview response */
+function totalsPayload(
+  allocation: AllocationResult,
+  byParticipant: ParticipantPosition[]
+) {
+  return {
+    currency: allocation.currency,
+    grandTotal: allocation.grandTotal,
+    byParticipant,
+    byItem: allocation.byItem,
+    byCharge: allocation.byCharge,
+    discounts: allocation.discounts,
+  };
+}
+
+/**
+ * @swagger
+ * /sessions/preview:
+ *   post:
+ *     summary: Dry-run of finalize - compute who would owe what without saving anything
+ *     description: |
+ *       Accepts the same body as `POST /sessions/finalize` and returns the same `totals` / `allocations` shape.
+ *       Nothing is written: no history entry, no amountOwed update, no status change. Any user who can view the session may preview it.
+ *     tags: [Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [sessionId]
+ *             properties:
+ *               sessionId: { type: integer }
+ *               currency: { type: string, nullable: true }
+ *               participants: { type: array, items: { type: object }, description: "See /sessions/finalize" }
+ *               items: { type: array, items: { type: object }, description: "See /sessions/finalize; omit to use stored items and assignments" }
+ *               charges: { type: array, items: { type: object }, description: "See /sessions/finalize" }
+ *               payers: { type: array, items: { type: object }, description: "See /sessions/finalize" }
+ *     responses:
+ *       200:
+ *         description: Computed allocations (not persisted)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 sessionId: { type: integer }
+ *                 status: { type: string, example: "preview" }
+ *                 currency: { type: string }
+ *                 totals: { type: object, description: "Same as /sessions/finalize" }
+ *                 payers: { type: array, items: { type: object } }
+ *                 allocations: { type: array, items: { type: object } }
+ *       400:
+ *         description: Invalid split input (same validation as finalize)
+ */
+router.post(
+  "/preview",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+      const sessionId = Number(req.body?.sessionId);
+      if (!Number.isFinite(sessionId)) {
+        return res.status(400).json({ error: "sessionId required" });
+      }
+      const access = await getSessionAccess(sessionId, req.user.id);
+      if (!access) return res.status(404).json({ error: "Session not found" });
+      if (!access.canView) return res.status(403).json({ error: "Forbidden" });
+
+      const session = await prisma.session.findUnique({
+        where: { id: sessionId },
+        select: {
+          id: true,
+          currency: true,
+          serviceFee: true,
+          creator: { select: { id: true, uniqueId: true, username: true } },
+        },
+      });
+      if (!session) return res.status(404).json({ error: "Session not found" });
+
+      const prepared = await prepareSplitInput(req.body ?? {}, session);
+      if ("error" in prepared) return res.status(400).json(prepared);
+      const allocation = computeAllocation(prepared.input);
+      const paid = applyPayers(
+        allocation,
+        prepared.payers,
+        prepared.userByUniqueId,
+        session.creator
+      );
+      if ("error" in paid) return res.status(400).json(paid);
+      return res.json({
+        sessionId,
+        status: "preview",
+        currency: allocation.currency,
+        totals: totalsPayload(allocation, paid.byParticipant),
+        payers: paid.payers.map(({ userId: _userId, ...p }) => p),
+        allocations: allocation.allocations,
+      });
+    } catch (err) {
+      if (err instanceof AllocationError) {
+        return res.status(400).json({ error: err.message, code: err.code });
+      }
+      console.error("POST /sessions/preview error:", err);
+      return res.status(500).json({ error: "Server error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /sessions/finalize:
+ *   post:
+ *     summary: Finalize a session by computing allocations for provided items & participants
+ *     description: |
+ *       When `items` is omitted, allocations are computed from the stored receipt items and their assignments (participants default to the session participants).
+ *       Amounts are rounded to the currency's minor unit (0 decimals for JPY/KRW, 3 for BHD/KWD, otherwise 2). Rounding remainders go to the largest fractional shares (earlier participant on ties), so `allocations` and `byParticipant` add up exactly to `grandTotal`.
+ *       `payers` records who paid the bill (defaults to the creator paying everything); their amounts must add up to `grandTotal`. Each participant's net position (share owed minus amount paid) is posted to the debt ledger (see `/balances`).
+ *       Every finalize is stored as a new immutable version (see `/sessions/{sessionId}/history`). Re-finalizing returns `changes` against the previous version and flags participants whose amount changed.
+ *     tags: [Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [sessionId]
+ *             properties:
+ *               currency: { type: string, example: "JPY", nullable: true }
+ *               sessionId: { type: integer }
+ *               sessionName: { type: string, description: "Name stored in history; defaults to the session name" }
+ *               participants:
+ *                 type: array
+ *                 description: Registered users (resolved by uniqueId); each computed share is stored as SessionParticipant.amountOwed
+ *                 items:
+ *                   type: object
+ *                   required: [uniqueId]
+ *                   properties:
+ *                     uniqueId: { type: string }
+ *                     username: { type: string }
+ *               items:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   description: Priced items, plus discounts (kind "discount" or a negative price) that are spread over the affected participants without driving anyone below zero
+ *                   required: [id, name, price, quantity, splitMode]
+ *                   properties:
+ *                     id: { type: string }
+ *                     name: { type: string }
+ *                     price: { type: number }
+ *                     quantity: { type: number }
+ *                     kind: { type: string, nullable: true }
+ *                     splitMode: { type: string, enum: [equal, count, percent, shares, fixed] }
+ *                     perPersonCount: { type: object, additionalProperties: { type: number } }
+ *                     assignedTo: { type: array, items: { type: string }, description: "equal split; for fixed, who shares the remainder equally" }
+ *                     percentages: { type: object, additionalProperties: { type: number }, description: "percent split, must sum to 100", example: { "#1111": 60, "#2222": 40 } }
+ *                     shares: { type: object, additionalProperties: { type: number }, description: "shares split, e.g. 2:1:1", example: { "#1111": 2, "#2222": 1, "#3333": 1 } }
+ *                     fixedAmounts: { type: object, additionalProperties: { type: number }, description: "fixed split, sum must not exceed the item total", example: { "#3333": 1500 } }
+ *                     appliesTo: { type: string, nullable: true, description: "Discounts only: id of the discounted item (omit for a bill-level discount)" }
+ *                     percent: { type: number, nullable: true, description: "Discounts only: percent off the affected subtotal instead of a fixed amount" }
+ *                     distribution: { type: string, enum: [proportional, equal], description: "Discounts only (default proportional)" }
+ *               charges:
+ *                 type: array
+ *                 description: Tax, tip and service-fee lines spread over all participants. Session.serviceFee is added as a proportional fee unless a fee line is supplied here or the receipt items already include one (kind "fee").
+ *                 items:
+ *                   type: object
+ *                   required: [kind]
+ *                   properties:
+ *                     id: { type: string, example: "tip" }
+ *                     kind: { type: string, enum: [tax, tip, fee] }
+ *                     name: { type: string, nullable: true }
+ *                     distribution: { type: string, enum: [proportional, equal, perHead], default: proportional }
+ *                     amount: { type: number, description: "Total amount (per person for perHead)" }
+ *                     percent: { type: number, description: "Percent of the item subtotal (instead of amount)" }
+ *               payers:
+ *                 type: array
+ *                 description: Who paid and how much (e.g. two cards). Must add up to grandTotal; defaults to the creator paying the whole bill.
+ *                 items:
+ *                   type: object
+ *                   required: [uniqueId, amount]
+ *                   properties:
+ *                     uniqueId: { type: string, example: "#1234" }
+ *                     amount: { type: number, example: 60 }
+ *     responses:
+ *       200:
+ *         description: Finalized allocations
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 sessionId: { type: integer }
+ *                 sessionName: { type: string, nullable: true }
+ *                 status: { type: string }
+ *                 version: { type: integer, description: "1 for the first finalize, incremented on every re-finalize" }
+ *                 finalizedAt: { type: string, format: date-time }
+ *                 createdAt: { type: string, format: date-time }
+ *                 currency: { type: string }
+ *                 totals:
+ *                   type: object
+ *                   properties:
+ *                     currency: { type: string }
+ *                     grandTotal: { type: number }
+ *                     byParticipant:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           uniqueId: { type: string }
+ *                           username: { type: string }
+ *                           itemsSubtotal: { type: number, description: "Item shares net of discounts" }
+ *                           discounts: { type: number, description: "Sum of discount shares (negative)" }
+ *                           charges:
+ *                             type: object
+ *                             properties:
+ *                               tax: { type: number }
+ *                               tip: { type: number }
+ *                               fee: { type: number }
+ *                           amountOwed: { type: number }
+ *                           paid: { type: number }
+ *                           net: { type: number, description: "amountOwed minus paid; negative means the participant is owed money" }
+ *                           participantId: { type: string }
+ *                           total: { type: number }
+ *                     byItem:
  *                       type: array
  *                       items:
  *                         type: object
@@ -392,16 +1392,81 @@ router.patch(
  *                           name: { type: string }
  *                           total: { type: number }
  *                           kind: { type: string, nullable: true }
+ *                     byCharge:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           chargeId: { type: string }
+ *                           name: { type: string }
+ *                           kind: { type: string, enum: [tax, tip, fee] }
+ *                           distribution: { type: string }
+ *                           percent: { type: number, nullable: true }
+ *                           total: { type: number }
+ *                     discounts:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           itemId: { type: string }
+ *                           name: { type: string }
+ *                           appliesTo: { type: string, nullable: true }
+ *                           requested: { type: number }
+ *                           applied: { type: number, description: "Lower than requested when capped at what participants owe" }
+ *                 payers:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       uniqueId: { type: string }
+ *                       username: { type: string }
+ *                       amount: { type: number }
  *                 allocations:
  *                   type: array
+ *                   description: Item allocations (itemId) followed by charge allocations (chargeId, kind)
  *                   items:
  *                     type: object
  *                     properties:
- *                       itemId: { type: string }
+ *                       itemId: { type: string, nullable: true }
+ *                       chargeId: { type: string, nullable: true }
+ *                       kind: { type: string, nullable: true }
  *                       participantId: { type: string }
  *                       shareAmount: { type: number }
  *                       shareRatio: { type: number, nullable: true }
  *                       shareUnits: { type: number, nullable: true }
+ *                       shareWeight: { type: number, nullable: true }
+ *                       fixedAmount: { type: number, nullable: true }
+ *                 changes:
+ *                   type: object
+ *                   nullable: true
+ *                   description: Diff against the previous version; null on the first finalize
+ *                   properties:
+ *                     currency: { type: string }
+ *                     grandTotal: { type: object, properties: { before: { type: number }, after: { type: number } } }
+ *                     participants:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           uniqueId: { type: string }
+ *                           username: { type: string }
+ *                           before: { type: number }
+ *                           after: { type: number }
+ *                           delta: { type: number }
+ *                     items:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           itemId: { type: string }
+ *                           name: { type: string }
+ *                           change: { type: string, enum: [added, removed, changed] }
+ *                           totalBefore: { type: number }
+ *                           totalAfter: { type: number }
+ *                           sharesBefore: { type: array, items: { type: object, properties: { uniqueId: { type: string }, share: { type: number } } } }
+ *                           sharesAfter: { type: array, items: { type: object, properties: { uniqueId: { type: string }, share: { type: number } } } }
+ *       409:
+ *         description: Session is finalized (reopen it first) or canceled, or another finalize of it ran at the same time
  */
 router.post(
   "/finalize",
@@ -409,263 +1474,244 @@ router.post(
   async (req: AuthRequest, res: Response) => {
     try {
       if (!req.user) return res.status(401).json({ error: "Unauthorized" });
-      const { sessionId, sessionName, participants, items } = req.body || {};
-      const currency = normalizeCurrencyCode(req.body?.currency);
+      const { sessionId, sessionName } = req.body || {};
       if (!Number.isFinite(Number(sessionId))) {
         return res.status(400).json({ error: "sessionId required" });
       }
-      if (!Array.isArray(participants) || participants.length === 0) {
-        return res.status(400).json({ error: "participants array required" });
-      }
-      if (!Array.isArray(items) || items.length === 0) {
-        return res.status(400).json({ error: "items array required" });
-      }
 
       const session = await prisma.session.findUnique({
         where: { id: Number(sessionId) },
-        select: { id: true, creatorId: true, createdAt: true },
+        select: {
+          id: true,
+          creatorId: true,
+          name: true,
+          createdAt: true,
+          currency: true,
+          serviceFee: true,
+          status: true,
+          creator: { select: { id: true, uniqueId: true, username: true } },
+        },
       });
       if (!session) return res.status(404).json({ error: "Session not found" });
       if (session.creatorId !== req.user.id) {
         return res.status(403).json({ error: "Forbidden" });
       }
-
-      interface ParticipantInfo {
-        uniqueId: string;
-        username: string;
-      }
-      interface ItemInput {
-        id: string;
-        name: string;
-        price?: number;
-        unitPrice?: number;
-        totalPrice?: number;
-        quantity: number;
-        kind?: string;
-        splitMode?: "equal" | "count";
-        perPersonCount?: Record<string, number>;
-        assignedTo?: string[];
-      }
-      const pList: ParticipantInfo[] = participants.map((p: any) => ({
-        uniqueId: String(p.uniqueId),
-        username: String(p.username || p.uniqueId),
-      }));
-      const participantIndex = new Map<string, ParticipantInfo>();
-      for (const p of pList) participantIndex.set(p.uniqueId, p);
-
-      const allocs: any[] = [];
-      // We'll derive totals AFTER generating allocations to have a single source of truth.
-      const itemMeta = new Map<string, { name: string; kind?: string }>();
-
-      function round2(n: number) {
-        return Math.round(n * 100) / 100;
-      }
-
+      // The body may rename the bill; otherwise keep the name given at scan or creation
+      const historyName =
+        (typeof sessionName === "string" && sessionName.trim()) ||
+        session.name ||
+        null;
+      const next = transition(session.status, "finalize");
+      if ("error" in next) return res.status(409).json(next);
+      const prepared = await prepareSplitInput(req.body ?? {}, session);
+      if ("error" in prepared) return res.status(400).json(prepared);
+      const { input, userByUniqueId } = prepared;
+      const { currency } = input;
       if (process.env.DEBUG_PARSE === "1") {
         console.log(
           "[finalize] participants=",
-          pList.length,
+          input.participants.length,
           "items=",
-          items.length
+          input.items.length
         );
       }
 
-      for (const raw of items as ItemInput[]) {
-        if (!raw || typeof raw !== "object") continue;
-        const { id, name, quantity } = raw;
-        // prefer explicit price/unitPrice; else derive from totalPrice/quantity
-        let unitPrice = Number(
-          raw.price ??
-            raw.unitPrice ??
-            (raw.totalPrice && quantity
-              ? Number(raw.totalPrice) / Number(quantity)
-              : NaN)
-        );
-        const qty = Number(quantity);
-        // infer splitMode if missing
-        let splitMode: "equal" | "count" | undefined = raw.splitMode;
-        if (!splitMode) {
-          if (raw.perPersonCount) splitMode = "count";
-          else splitMode = "equal";
-        }
-        if (
-          !id ||
-          !name ||
-          !Number.isFinite(unitPrice) ||
-          !Number.isFinite(qty) ||
-          qty <= 0
-        ) {
-          return res
-            .status(400)
-            .json({ error: `Invalid item fields for id=${id}` });
-        }
-        if (raw.kind != null) {
-          itemMeta.set(id, { name, kind: raw.kind });
-        } else {
-          itemMeta.set(id, { name });
-        }
-
-        if (splitMode === "count") {
-          const counts = raw.perPersonCount || {};
-          // Validate participants
-          let sumUnits = 0;
-          for (const [pid, units] of Object.entries(counts)) {
-            if (!participantIndex.has(pid)) {
-              return res.status(400).json({
-                error: `Unknown participant in perPersonCount: ${pid}`,
-              });
-            }
-            const u = Number(units) || 0;
-            if (u < 0)
-              return res
-                .status(400)
-                .json({ error: `Negative units for ${pid}` });
-            sumUnits += u;
-          }
-          if (sumUnits !== qty) {
-            return res.status(400).json({
-              error: `Sum of perPersonCount (${sumUnits}) must equal quantity (${qty}) for item ${id}`,
-            });
-          }
-          for (const [pid, units] of Object.entries(counts)) {
-            const u = Number(units) || 0;
-            const shareAmount = round2(u * unitPrice);
-            allocs.push({
-              itemId: id,
-              participantId: pid,
-              shareUnits: u,
-              shareAmount,
-            });
-            // participant totals will be derived later
-          }
-        } else if (splitMode === "equal") {
-          const assigned = Array.isArray(raw.assignedTo) ? raw.assignedTo : [];
-          if (assigned.length === 0) {
-            return res.status(400).json({
-              error: `assignedTo required for equal split item ${id}`,
-            });
-          }
-          const valid = assigned.filter((pid) => participantIndex.has(pid));
-          if (valid.length !== assigned.length) {
-            return res.status(400).json({
-              error: `Unknown participant in assignedTo for item ${id}`,
-            });
-          }
-          const ratio = 1 / valid.length;
-          let allocated = 0;
-          valid.forEach((pid, idx) => {
-            let shareAmount = unitPrice * qty * ratio; // raw
-            if (idx === valid.length - 1) {
-              // last one gets the remainder to avoid rounding drift
-              shareAmount = unitPrice * qty - allocated;
-            }
-            shareAmount = round2(shareAmount);
-            allocated = round2(allocated + shareAmount);
-            allocs.push({
-              itemId: id,
-              participantId: pid,
-              shareRatio: ratio,
-              shareAmount,
-            });
-            // participant totals will be derived later
-          });
-        } else {
-          return res.status(400).json({
-            error: `Unsupported splitMode '${splitMode}' for item ${id}`,
-          });
-        }
-      }
-
-      // Derive totals from allocations
-      const byItemMap = new Map<
-        string,
-        { itemId: string; name: string; total: number; kind?: string }
-      >();
-      const byParticipantTotals = new Map<string, number>();
-      for (const a of allocs) {
-        const itemId = a.itemId;
-        const shareAmount = Number(a.shareAmount) || 0;
-        if (!byItemMap.has(itemId)) {
-          const meta = itemMeta.get(itemId);
-          byItemMap.set(itemId, {
-            itemId,
-            name: meta?.name || itemId,
-            total: 0,
-            ...(meta?.kind ? { kind: meta.kind } : {}),
-          });
-        }
-        const entry = byItemMap.get(itemId)!;
-        entry.total = round2(entry.total + shareAmount);
-        const pid = a.participantId;
-        byParticipantTotals.set(
-          pid,
-          round2((byParticipantTotals.get(pid) || 0) + shareAmount)
-        );
-      }
-      const byItem = Array.from(byItemMap.values());
-      const grandTotal = round2(byItem.reduce((s, it) => s + it.total, 0));
-      const byParticipant = pList.map((p) => {
-        const amount = round2(byParticipantTotals.get(p.uniqueId) || 0);
-        return {
-          uniqueId: p.uniqueId,
-          username: p.username,
-          amountOwed: amount,
-          participantId: p.uniqueId,
-          total: amount,
-        };
-      });
+      const allocation = computeAllocation(input);
+      const paid = applyPayers(
+        allocation,
+        prepared.payers,
+        userByUniqueId,
+        session.creator
+      );
+      if ("error" in paid) return res.status(400).json(paid);
+      const { grandTotal, byItem } = allocation;
+      const { byParticipant } = paid;
       if (process.env.DEBUG_PARSE === "1") {
         console.log("[finalize] derived byItem=", byItem);
         console.log("[finalize] derived byParticipant=", byParticipant);
       }
 
+      const participantUniqueIds = Array.from(
+        new Set(byParticipant.map((p) => p.uniqueId))
+      ).sort();
+      const participantUserIds = byParticipant.map(
+        (p) => userByUniqueId.get(p.uniqueId)!.id
+      );
+      const payers = paid.payers.map((p) => ({
+        userId: p.userId,
+        amount: p.amount,
+      }));
+      const debts = buildSessionDebts(
+        byParticipant.map((p, idx) => ({
+          userId: participantUserIds[idx]!,
+          amount: p.amountOwed,
+        })),
+        payers,
+        currency
+      );
       const createdAtIso = session.createdAt.toISOString();
       const finalizedAt = new Date();
       const finalizedAtIso = finalizedAt.toISOString();
-      const responsePayload = {
-        sessionId: Number(sessionId),
-        sessionName: sessionName || null,
-        status: "finalized",
-        createdAt: createdAtIso,
-        finalizedAt: finalizedAtIso,
-        currency,
-        totals: {
-          currency,
-          grandTotal,
-          byParticipant,
-          byItem,
-        },
-        allocations: allocs,
-      } satisfies Record<string, unknown>;
 
-      const participantUniqueIds = Array.from(
-        new Set(byParticipant.map((p) => p.uniqueId))
-      ).sort();
+      // The status flip is a conditional update: a concurrent finalize waits on
+      // the row lock, then matches nothing. The version is read after it, so two
+      // finalizes can never compute the same number.
+      const result = await prisma.$transaction(async (tx) => {
+        const claimed = await tx.session.updateMany({
+          where: {
+            id: session.id,
+            status: { in: transitionSources("finalize") },
+          },
+          data: { status: next.status },
+        });
+        if (claimed.count === 0) {
+          const current = await tx.session.findUnique({
+            where: { id: session.id },
+            select: { status: true },
+          });
+          const conflict = transition(
+            current?.status ?? "FINALIZED",
+            "finalize"
+          );
+          return { conflict: "error" in conflict ? conflict : null };
+        }
 
-      await prisma.sessionHistoryEntry.upsert({
-        where: { sessionId: session.id },
-        create: {
-          sessionId: session.id,
-          creatorId: session.creatorId,
-          sessionName: sessionName ?? null,
-          payload: responsePayload as Prisma.JsonObject,
-          participantUniqueIds,
-          grandTotal: grandTotal.toString(),
-          currency,
-          finalizedAt,
-        },
-        update: {
-          sessionName: sessionName ?? null,
-          payload: responsePayload as Prisma.JsonObject,
-          participantUniqueIds,
-          grandTotal: grandTotal.toString(),
+        const previous = await tx.sessionHistoryVersion.findFirst({
+          where: { sessionId: session.id },
+          orderBy: { version: "desc" },
+          select: { version: true, payload: true },
+        });
+        const version = (previous?.version ?? 0) + 1;
+
+        const responsePayload = {
+          sessionId: Number(sessionId),
+          sessionName: historyName,
+          status: "finalized",
+          version,
+          createdAt: createdAtIso,
+          finalizedAt: finalizedAtIso,
           currency,
-          finalizedAt,
-        },
+          totals: totalsPayload(allocation, byParticipant),
+          payers: paid.payers.map(({ userId: _userId, ...p }) => p),
+          allocations: allocation.allocations,
+        } satisfies Record<string, unknown>;
+        const searchText = buildHistorySearchText(historyName, responsePayload);
+        const changes = previous
+          ? diffFinalizations(previous.payload, responsePayload, currency)
+          : null;
+
+        await tx.sessionHistoryVersion.create({
+          data: {
+            sessionId: session.id,
+            version,
+            finalizedById: req.user!.id,
+            payload: responsePayload as unknown as Prisma.JsonObject,
+            grandTotal: grandTotal.toString(),
+            currency,
+            ...(changes
+              ? { diff: changes as unknown as Prisma.JsonObject }
+              : {}),
+          },
+        });
+        await tx.sessionHistoryEntry.upsert({
+          where: { sessionId: session.id },
+          create: {
+            sessionId: session.id,
+            creatorId: session.creatorId,
+            sessionName: historyName,
+            payload: responsePayload as unknown as Prisma.JsonObject,
+            participantUniqueIds,
+            grandTotal: grandTotal.toString(),
+            currency,
+            finalizedAt,
+            searchText,
+          },
+          update: {
+            sessionName: historyName,
+            payload: responsePayload as unknown as Prisma.JsonObject,
+            participantUniqueIds,
+            grandTotal: grandTotal.toString(),
+            currency,
+            finalizedAt,
+            searchText,
+          },
+        });
+        // Participants left out of this finalize owe nothing
+        await tx.sessionParticipant.updateMany({
+          where: {
+            sessionId: session.id,
+            userId: { notIn: participantUserIds },
+          },
+          data: { amountOwed: 0 },
+        });
+        for (const [idx, p] of byParticipant.entries()) {
+          await tx.sessionParticipant.upsert({
+            where: {
+              sessionId_userId: {
+                sessionId: session.id,
+                userId: participantUserIds[idx]!,
+              },
+            },
+            update: { amountOwed: p.amountOwed },
+            create: {
+              sessionId: session.id,
+              userId: participantUserIds[idx]!,
+              amountOwed: p.amountOwed,
+            },
+          });
+        }
+        // Flag everyone whose amount changed since the previous version
+        await tx.sessionParticipant.updateMany({
+          where: {
+            sessionId: session.id,
+            user: {
+              uniqueId: {
+                in: (changes?.participants ?? []).map((c) => c.uniqueId),
+              },
+            },
+          },
+          data: { amountChangedAt: finalizedAt },
+        });
+        // Re-finalizing replaces the session's payers and ledger entries
+        await tx.sessionPayer.deleteMany({ where: { sessionId: session.id } });
+        await tx.ledgerEntry.deleteMany({ where: { sessionId: session.id } });
+        await tx.sessionPayer.createMany({
+          data: payers.map((p) => ({ sessionId: session.id, ...p })),
+        });
+        await tx.ledgerEntry.createMany({
+          data: debts.map((d) => ({ sessionId: session.id, currency, ...d })),
+        });
+        return { conflict: null, version, responsePayload, changes };
       });
+      if (!("responsePayload" in result))
+        return res.status(409).json(
+          result.conflict ?? {
+            error: "Session was finalized concurrently",
+          }
+        );
+      const { version, responsePayload, changes } = result;
 
-      return res.json(responsePayload);
+      publishSessionEvent(session.id, "session.status", {
+        status: next.status,
+      });
+      publishSessionEvent(session.id, "session.finalized", {
+        currency,
+        grandTotal,
+        byParticipant,
+        version,
+        changedParticipants: changes?.participants ?? [],
+      });
+      return res.json({ ...responsePayload, changes });
     } catch (err) {
+      if (err instanceof AllocationError) {
+        return res.status(400).json({ error: err.message, code: err.code });
+      }
+      // Fallback for a race the status guard did not catch: (sessionId, version) is unique
+      if ((err as any)?.code === "P2002") {
+        return res
+          .status(409)
+          .json({ error: "Session was finalized concurrently" });
+      }
       console.error("POST /sessions/finalize error:", err);
       return res.status(500).json({ error: "Server error" });
     }
@@ -677,6 +1723,10 @@ router.post(
  * /sessions/history:
  *   get:
  *     summary: Session finalize history for the current user
+ *     description: |
+ *       Newest first, paginated with an opaque cursor: pass `nextCursor` from the previous page as `cursor`.
+ *       `q` searches the session name and the item names of the finalized bill (every word must match).
+ *       `fields=summary` leaves out the stored `payload`.
  *     tags: [Sessions]
  *     security:
  *       - bearerAuth: []
@@ -693,9 +1743,69 @@ router.post(
  *           minimum: 1
  *           maximum: 50
  *         description: Override default result size when not requesting all
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: "`nextCursor` of the previous page"
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *           example: "JPY"
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           example: "2025-10-01"
+ *         description: Finalized at or after (ISO 8601)
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           example: "2025-10-31"
+ *         description: Finalized at or before; a date without time includes the whole day
+ *       - in: query
+ *         name: groupId
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: role
+ *         schema:
+ *           type: string
+ *           enum: [created, participated]
+ *         description: "created: sessions you created; participated: sessions created by someone else that you took part in"
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *         description: Search session and item names
+ *       - in: query
+ *         name: fields
+ *         schema:
+ *           type: string
+ *           enum: [full, summary]
+ *           default: full
  *     responses:
  *       200:
  *         description: Session history entries
+ *         content:
+ *           application/json:
+ *             example:
+ *               scope: "latest"
+ *               count: 1
+ *               limit: 5
+ *               nextCursor: "MjAyNS0xMC0zMVQyMzozMDowMC4wMDBafDQy"
+ *               entries:
+ *                 - sessionId: 7
+ *                   sessionName: "Dinner"
+ *                   finalizedAt: "2025-10-31T23:30:00.000Z"
+ *                   grandTotal: 30.3
+ *                   currency: "USD"
+ *                   participantUniqueIds: ["#1111", "#2222"]
+ *                   isCreator: true
+ *       400:
+ *         description: Invalid filter, limit or cursor
  */
 router.get(
   "/history",
@@ -727,22 +1837,52 @@ router.get(
         limit = Math.min(Math.trunc(parsed), 50);
       }
 
-      const filters: Prisma.SessionHistoryEntryWhereInput[] = [
-        { creatorId: requesterId },
-      ];
-      if (userRecord.uniqueId) {
-        filters.push({ participantUniqueIds: { has: userRecord.uniqueId } });
+      const fields = String(req.query.fields ?? "full");
+      if (fields !== "full" && fields !== "summary") {
+        return res
+          .status(400)
+          .json({ error: "fields must be full or summary" });
+      }
+
+      const parsedFilters = parseHistoryFilters(req.query);
+      if ("error" in parsedFilters) {
+        return res.status(400).json({ error: parsedFilters.error });
+      }
+
+      let cursor: HistoryCursor | undefined;
+      if (!fetchAll && req.query.cursor != null && req.query.cursor !== "") {
+        const decoded = decodeHistoryCursor(String(req.query.cursor));
+        if (!decoded) return res.status(400).json({ error: "Invalid cursor" });
+        cursor = decoded;
       }
-      const whereFilter: Prisma.SessionHistoryEntryWhereInput =
-        filters.length > 1 ? { OR: filters } : filters[0]!;
 
       const entries = await prisma.sessionHistoryEntry.findMany({
-        where: whereFilter,
-        orderBy: { finalizedAt: "desc" },
-        ...(fetchAll ? {} : { take: limit }),
+        where: historyWhere(
+          { id: requesterId, uniqueId: userRecord.uniqueId },
+          parsedFilters.filters,
+          cursor
+        ),
+        orderBy: HISTORY_ORDER,
+        select: {
+          id: true,
+          sessionId: true,
+          sessionName: true,
+          finalizedAt: true,
+          grandTotal: true,
+          currency: true,
+          participantUniqueIds: true,
+          creatorId: true,
+          payload: fields === "full",
+        },
+        // One extra row tells whether another page exists
+        ...(fetchAll ? {} : { take: limit + 1 }),
       });
 
-      const response = entries.map((entry) => ({
+      const hasMore = !fetchAll && entries.length > limit;
+      const page = hasMore ? entries.slice(0, limit) : entries;
+      const last = page[page.length - 1];
+
+      const response = page.map((entry) => ({
         sessionId: entry.sessionId,
         sessionName: entry.sessionName,
         finalizedAt: entry.finalizedAt.toISOString(),
@@ -750,13 +1890,20 @@ router.get(
         currency: entry.currency,
         participantUniqueIds: entry.participantUniqueIds,
         isCreator: entry.creatorId === requesterId,
-        payload: entry.payload,
+        ...(fields === "full" ? { payload: entry.payload } : {}),
       }));
 
       return res.json({
         scope: fetchAll ? "all" : "latest",
         count: response.length,
         limit: fetchAll ? null : limit,
+        nextCursor:
+          hasMore && last
+            ? encodeHistoryCursor({
+                finalizedAt: last.finalizedAt,
+                id: last.id,
+              })
+            : null,
         entries: response,
       });
     } catch (err) {
@@ -766,4 +1913,420 @@ router.get(
   }
 );
 
+/**
+ * @swagger
+ * /sessions/history/export:
+ *   get:
+ *     summary: Export session history as CSV, XLSX or JSON
+ *     description: |
+ *       One row per stored allocation (session, date, item, kind, participant, share, currency) plus a per-participant summary.
+ *       XLSX has both as separate sheets; JSON returns `{ rows, summary }`; CSV returns the allocation rows, or the summary with `sheet=summary`.
+ *       Accepts the same filters as `GET /sessions/history` (currency, from, to, groupId, role, q) and always covers every matching entry.
+ *       Canceled sessions are left out so the totals match `/balances` and `/user/stats`.
+ *     tags: [Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, xlsx, json]
+ *           default: csv
+ *       - in: query
+ *         name: sheet
+ *         schema:
+ *           type: string
+ *           enum: [allocations, summary]
+ *           default: allocations
+ *         description: CSV only
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: groupId
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: role
+ *         schema:
+ *           type: string
+ *           enum: [created, participated]
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Export file (attachment for csv/xlsx)
+ *         content:
+ *           text/csv: {}
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet: {}
+ *           application/json:
+ *             example:
+ *               rows:
+ *                 - { sessionId: 7, sessionName: "Dinner", date: "2025-10-31", item: "Ramen", kind: "item", participant: "#1111", username: "alice", share: 12.5, currency: "USD" }
+ *               summary:
+ *                 - { participant: "#1111", username: "alice", currency: "USD", sessions: 1, total: 12.5 }
+ *       400:
+ *         description: Invalid format or filter
+ */
+router.get(
+  "/history/export",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+      const format = String(req.query.format ?? "csv").toLowerCase();
+      if (format !== "csv" && format !== "xlsx" && format !== "json") {
+        return res
+          .status(400)
+          .json({ error: "format must be csv, xlsx or json" });
+      }
+      const sheet = String(req.query.sheet ?? "allocations");
+      if (sheet !== "allocations" && sheet !== "summary") {
+        return res
+          .status(400)
+          .json({ error: "sheet must be allocations or summary" });
+      }
+      const parsedFilters = parseHistoryFilters(req.query);
+      if ("error" in parsedFilters) {
+        return res.status(400).json({ error: parsedFilters.error });
+      }
+
+      const userRecord = await prisma.user.findUnique({
+        where: { id: req.user.id },
+        select: { uniqueId: true },
+      });
+      if (!userRecord) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const entries = await prisma.sessionHistoryEntry.findMany({
+        where: historyWhere(
+          { id: req.user.id, uniqueId: userRecord.uniqueId },
+          { ...parsedFilters.filters, excludeCanceled: true }
+        ),
+        orderBy: HISTORY_ORDER,
+        select: {
+          sessionId: true,
+          sessionName: true,
+          finalizedAt: true,
+          currency: true,
+          payload: true,
+        },
+      });
+      const rows = allocationRows(entries);
+      const summary = participantSummary(rows);
+      console.log("/sessions/history/export:", {
+        userId: req.user.id,
+        format,
+        entries: entries.length,
+        rows: rows.length,
+      });
+
+      const filename = `session-history-${new Date()
+        .toISOString()
+        .slice(0, 10)}`;
+      if (format === "json") {
+        return res.json({ rows, summary });
+      }
+      if (format === "xlsx") {
+        const buffer = await buildHistoryWorkbook(rows, summary);
+        res.setHeader(
+          "Content-Type",
+          "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+        );
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="${filename}.xlsx"`
+        );
+        return res.send(buffer);
+      }
+      const csv =
+        sheet === "summary"
+          ? toCsv(summary, SUMMARY_COLUMNS)
+          : toCsv(rows, ALLOCATION_COLUMNS);
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${filename}${
+          sheet === "summary" ? "-summary" : ""
+        }.csv"`
+      );
+      return res.send(csv);
+    } catch (err) {
+      console.error("GET /sessions/history/export error:", err);
+      return res.status(500).json({ error: "Server error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /sessions/{sessionId}/receipt-image:
+ *   get:
+ *     summary: Redirect to a short-lived signed URL of the session's receipt photo
+ *     description: Same visibility as `GET /sessions/{sessionId}`.
+ *     tags: [Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *         description: Photo number for receipts scanned from several photos
+ *     responses:
+ *       302:
+ *         description: Redirect to the image
+ *       403:
+ *         description: Not allowed to view the session
+ *       404:
+ *         description: Session not found or no photo stored
+ */
+router.get(
+  "/:sessionId/receipt-image",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+      const sessionId = Number(req.params.sessionId);
+      if (!Number.isFinite(sessionId))
+        return res.status(400).json({ error: "Invalid sessionId" });
+      const access = await getSessionAccess(sessionId, req.user.id);
+      if (!access) return res.status(404).json({ error: "Session not found" });
+      if (!access.canView) return res.status(403).json({ error: "Forbidden" });
+
+      const page = req.query.page == null ? 1 : Number(req.query.page);
+      if (!Number.isInteger(page) || page < 1)
+        return res.status(400).json({ error: "Invalid page" });
+
+      const s = await prisma.session.findUnique({
+        where: { id: sessionId },
+        select: { receiptImageUrl: true, receiptImageKeys: true },
+      });
+      const stored = s ? storedReceiptImages(s)[page - 1] : undefined;
+      const receiptImage = await receiptImageLink(stored ?? null);
+      if (!receiptImage)
+        return res.status(404).json({ error: "No receipt image" });
+      res.setHeader("Cache-Control", "private, no-store");
+      return res.redirect(302, receiptImage.url);
+    } catch (err) {
+      console.error("GET /sessions/:sessionId/receipt-image error:", err);
+      return res.status(500).json({ error: "Server error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /sessions/{sessionId}:
+ *   get:
+ *     summary: Session detail - items with assignments, participants, payers, group, receipt image and finalized history
+ *     description: |
+ *       Visible to the creator, session participants and members of the session's group. `history` is null until the session is finalized.
+ *       `receiptImageUrl` is a signed link to the scanned photo valid until `receiptImageExpiresAt` (`RECEIPT_URL_TTL_SECONDS`, default 15 minutes); `receiptImages` lists every photo of a multi-photo scan.
+ *     tags: [Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *     responses:
+ *       200:
+ *         description: Session detail
+ *         content:
+ *           application/json:
+ *             example:
+ *               id: 7
+ *               name: "Dinner"
+ *               status: "FINALIZED"
+ *               currency: "JPY"
+ *               total: 4600
+ *               serviceFee: 0
+ *               createdAt: "2025-10-31T20:00:00.000Z"
+ *               receiptImageUrl: "https://<bucket>.r2.cloudflarestorage.com/receipts/7/1761940800000-1.jpg?X-Amz-Signature=..."
+ *               receiptImageExpiresAt: "2025-11-09T10:15:00.000Z"
+ *               receiptImages:
+ *                 - { page: 1, url: "https://<bucket>.r2.cloudflarestorage.com/receipts/7/1761940800000-1.jpg?X-Amz-Signature=...", expiresAt: "2025-11-09T10:15:00.000Z" }
+ *               creator: { id: 1, uniqueId: "#1111", username: "alice" }
+ *               group: { id: 10, name: "Trip" }
+ *               viewer: { isCreator: true, isParticipant: true, isGroupMember: true }
+ *               participants:
+ *                 - { id: 1, uniqueId: "#1111", username: "alice", amountOwed: 2300, amountChangedAt: null }
+ *                 - { id: 2, uniqueId: "#2222", username: "bob", amountOwed: 2300, amountChangedAt: null }
+ *               items:
+ *                 - id: "31"
+ *                   name: "Ramen"
+ *                   unitPrice: 2300
+ *                   quantity: 2
+ *                   totalPrice: 4600
+ *                   kind: "item"
+ *                   assignments:
+ *                     - { uniqueId: "#1111", username: "alice", units: 1 }
+ *                     - { uniqueId: "#2222", username: "bob", units: 1 }
+ *               payers:
+ *                 - { uniqueId: "#1111", username: "alice", amount: 4600 }
+ *               history:
+ *                 finalizedAt: "2025-10-31T23:30:00.000Z"
+ *                 grandTotal: 4600
+ *                 currency: "JPY"
+ *                 payload: {}
+ *       403:
+ *         description: Not allowed to view the session
+ *       404:
+ *         description: Session not found
+ */
+router.get(
+  "/:sessionId",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+      const sessionId = Number(req.params.sessionId);
+      if (!Number.isFinite(sessionId))
+        return res.status(400).json({ error: "Invalid sessionId" });
+      const access = await getSessionAccess(sessionId, req.user.id);
+      if (!access) return res.status(404).json({ error: "Session not found" });
+      if (!access.canView) return res.status(403).json({ error: "Forbidden" });
+
+      const s = await prisma.session.findUnique({
+        where: { id: sessionId },
+        select: {
+          id: true,
+          name: true,
+          status: true,
+          currency: true,
+          total: true,
+          serviceFee: true,
+          createdAt: true,
+          receiptImageUrl: true,
+          receiptImageKeys: true,
+          creator: { select: { id: true, uniqueId: true, username: true } },
+          group: { select: { id: true, name: true } },
+          participants: {
+            orderBy: { userId: "asc" },
+            select: {
+              amountOwed: true,
+              amountChangedAt: true,
+              user: {
+                select: {
+                  id: true,
+                  uniqueId: true,
+                  username: true,
+                  avatarUrl: true,
+                },
+              },
+            },
+          },
+          items: {
+            orderBy: { id: "asc" },
+            select: {
+              ...receiptItemSelect,
+              assignments: {
+                orderBy: { createdAt: "asc" },
+                select: {
+                  units: true,
+                  user: { select: { uniqueId: true, username: true } },
+                },
+              },
+            },
+          },
+          payers: {
+            orderBy: { userId: "asc" },
+            select: {
+              amount: true,
+              user: { select: { uniqueId: true, username: true } },
+            },
+          },
+          historyEntry: {
+            select: {
+              finalizedAt: true,
+              grandTotal: true,
+              currency: true,
+              payload: true,
+            },
+          },
+        },
+      });
+      if (!s) return res.status(404).json({ error: "Session not found" });
+      const receiptImages = await receiptImageLinks(storedReceiptImages(s));
+      const receiptImage = receiptImages[0];
+
+      return res.json({
+        id: s.id,
+        name: s.name,
+        status: s.status,
+        currency: s.currency,
+        total: s.total.toNumber(),
+        serviceFee: s.serviceFee.toNumber(),
+        createdAt: s.createdAt.toISOString(),
+        receiptImageUrl: receiptImage?.url ?? null,
+        receiptImageExpiresAt: receiptImage?.expiresAt?.toISOString() ?? null,
+        receiptImages: receiptImages.map(serializeReceiptImage),
+        creator: s.creator,
+        group: s.group,
+        viewer: {
+          isCreator: access.isCreator,
+          isParticipant: access.isParticipant,
+          isGroupMember: access.isGroupMember,
+        },
+        participants: s.participants.map((p) => ({
+          id: p.user.id,
+          uniqueId: p.user.uniqueId,
+          username: p.user.username,
+          avatarUrl: p.user.avatarUrl ?? undefined,
+          amountOwed: p.amountOwed.toNumber(),
+          amountChangedAt: p.amountChangedAt
+            ? p.amountChangedAt.toISOString()
+            : null,
+        })),
+        items: s.items.map((it) => ({
+          ...serializeReceiptItem(it),
+          assignments: it.assignments.map((a) => ({
+            uniqueId: a.user.uniqueId,
+            username: a.user.username,
+            units: a.units ? a.units.toNumber() : null,
+          })),
+        })),
+        payers: s.payers.map((p) => ({
+          uniqueId: p.user.uniqueId,
+          username: p.user.username,
+          amount: p.amount.toNumber(),
+        })),
+        history: s.historyEntry
+          ? {
+              finalizedAt: s.historyEntry.finalizedAt.toISOString(),
+              grandTotal: s.historyEntry.grandTotal.toNumber(),
+              currency: s.historyEntry.currency,
+              payload: s.historyEntry.payload,
+            }
+          : null,
+      });
+    } catch (err) {
+      console.error("GET /sessions/:sessionId error:", err);
+      return res.status(500).json({ error: "Server error" });
+    }
+  }
+);
+
 export default router;
@@ -0,0 +1,321 @@
+import { Router } from "express";
+import type { Response } from "express";
+import type { SettlementStatus } from "@prisma/client";
+import { prisma } from "../config/prisma.js";
+import { authenticateToken, type AuthRequest } from "../middleware/auth.js";
+import { areFriends, sharedGroupIds } from "../services/relationships.js";
+import { roundMoney } from "../utils/currency.js";
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Settlements
+ *   description: Record debt payments; confirmed payments reduce balances
+ */
+
+const SETTLEMENT_STATUSES: readonly SettlementStatus[] = [
+  "PENDING",
+  "CONFIRMED",
+  "DISPUTED",
+];
+
+/** Fields returned for settlements */
+const settlementSelect = {
+  id: true,
+  groupId: true,
+  amount: true,
+  currency: true,
+  note: true,
+  status: true,
+  createdAt: true,
+  respondedAt: true,
+  payer: { select: { id: true, uniqueId: true, username: true } },
+  payee: { select: { id: true, uniqueId: true, username: true } },
+} as const;
+
+type SettlementRow = {
+  id: number;
+  groupId: number | null;
+  amount: { toNumber(): number };
+  currency: string;
+  note: string | null;
+  status: SettlementStatus;
+  createdAt: Date;
+  respondedAt: Date | null;
+  payer: { id: number; uniqueId: string; username: string };
+  payee: { id: number; uniqueId: string; username: string };
+};
+
+function serializeSettlement(s: SettlementRow) {
+  return {
+    id: s.id,
+    payer: s.payer,
+    payee: s.payee,
+    groupId: s.groupId,
+    amount: s.amount.toNumber(),
+    currency: s.currency,
+    note: s.note,
+    status: s.status,
+    createdAt: s.createdAt.toISOString(),
+    respondedAt: s.respondedAt ? s.respondedAt.toISOString() : null,
+  };
+}
+
+/**
+ * @swagger
+ * /settlements:
+ *   post:
+ *     summary: Record a payment to another user ("I paid Bob 2300 JPY"); the payee then confirms or disputes it
+ *     description: Only possible between friends or members of a shared group. With `groupId`, both users must belong to that group and the payment counts towards the group's settle plan.
+ *     tags: [Settlements]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [uniqueId, amount, currency]
+ *             properties:
+ *               uniqueId: { type: string, description: "Payee", example: "#2222" }
+ *               amount: { type: number, example: 2300 }
+ *               currency: { type: string, example: "JPY" }
+ *               groupId: { type: integer, nullable: true }
+ *               note: { type: string, nullable: true }
+ *     responses:
+ *       201:
+ *         description: Settlement recorded (status PENDING)
+ *       400:
+ *         description: Invalid payee, amount or currency
+ *       403:
+ *         description: Not friends and no shared group
+ *       404:
+ *         description: Payee not found
+ */
+router.post("/", authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+    const uniqueId =
+      typeof req.body?.uniqueId === "string" ? req.body.uniqueId.trim() : "";
+    const amount = Number(req.body?.amount);
+    const currency =
+      typeof req.body?.currency === "string"
+        ? req.body.currency.trim().toUpperCase()
+        : "";
+    const groupId =
+      req.body?.groupId != null ? Number(req.body.groupId) : undefined;
+    const note =
+      typeof req.body?.note === "string" && req.body.note.trim()
+        ? req.body.note.trim().slice(0, 500)
+        : null;
+    if (!uniqueId) return res.status(400).json({ error: "uniqueId required" });
+    if (!Number.isFinite(amount) || amount <= 0)
+      return res.status(400).json({ error: "amount must be positive" });
+    if (!/^[A-Z]{3}$/.test(currency))
+      return res
+        .status(400)
+        .json({ error: "currency must be an ISO 4217 code" });
+    if (groupId !== undefined && !Number.isFinite(groupId))
+      return res.status(400).json({ error: "Invalid groupId" });
+
+    const payee = await prisma.user.findUnique({
+      where: { uniqueId },
+      select: { id: true },
+    });
+    if (!payee) return res.status(404).json({ error: "User not found" });
+    const me = req.user.id;
+    if (payee.id === me)
+      return res.status(400).json({ error: "Cannot settle with yourself" });
+
+    const shared = await sharedGroupIds(me, payee.id);
+    if (groupId !== undefined) {
+      if (!shared.includes(groupId))
+        return res
+          .status(403)
+          .json({ error: "Both users must belong to the group" });
+    } else if (shared.length === 0 && !(await areFriends(me, payee.id))) {
+      return res
+        .status(403)
+        .json({ error: "You can only settle with friends or group members" });
+    }
+
+    const created = await prisma.settlement.create({
+      data: {
+        payerId: me,
+        payeeId: payee.id,
+        groupId: groupId ?? null,
+        amount: roundMoney(amount, currency),
+        currency,
+        note,
+      },
+      select: settlementSelect,
+    });
+    console.log("/settlements recorded:", {
+      id: created.id,
+      payerId: me,
+      payeeId: payee.id,
+    });
+    return res.status(201).json(serializeSettlement(created));
+  } catch (err) {
+    console.error("POST /settlements error:", err);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+/**
+ * @swagger
+ * /settlements:
+ *   get:
+ *     summary: Settlements the current user sent or received
+ *     tags: [Settlements]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, CONFIRMED, DISPUTED]
+ *       - in: query
+ *         name: direction
+ *         schema:
+ *           type: string
+ *           enum: [sent, received]
+ *     responses:
+ *       200:
+ *         description: Settlements, newest first
+ */
+router.get("/", authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+    const status = String(req.query.status || "").toUpperCase();
+    if (status && !SETTLEMENT_STATUSES.includes(status as SettlementStatus))
+      return res.status(400).json({ error: "Invalid status" });
+    const direction = String(req.query.direction || "");
+    if (direction && direction !== "sent" && direction !== "received")
+      return res.status(400).json({ error: "Invalid direction" });
+
+    const me = req.user.id;
+    const rows = await prisma.settlement.findMany({
+      where: {
+        ...(status ? { status: status as SettlementStatus } : {}),
+        ...(direction === "sent"
+          ? { payerId: me }
+          : direction === "received"
+          ? { payeeId: me }
+          : { OR: [{ payerId: me }, { payeeId: me }] }),
+      },
+      orderBy: { createdAt: "desc" },
+      select: settlementSelect,
+    });
+    return res.json(rows.map(serializeSettlement));
+  } catch (err) {
+    console.error("GET /settlements error:", err);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+/** Helper: load a settlement for its payee and move it to a new status */
+async function respond(
+  req: AuthRequest,
+  res: Response,
+  next: SettlementStatus,
+  allowedFrom: SettlementStatus[]
+) {
+  if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+  const id = Number(req.params.settlementId);
+  if (!Number.isFinite(id))
+    return res.status(400).json({ error: "Invalid settlementId" });
+
+  const settlement = await prisma.settlement.findUnique({
+    where: { id },
+    select: { id: true, payeeId: true, status: true },
+  });
+  if (!settlement)
+    return res.status(404).json({ error: "Settlement not found" });
+  if (settlement.payeeId !== req.user.id)
+    return res.status(403).json({ error: "Only the payee can respond" });
+  if (!allowedFrom.includes(settlement.status))
+    return res.status(409).json({
+      error: `Settlement is ${settlement.status.toLowerCase()}`,
+    });
+
+  const updated = await prisma.settlement.update({
+    where: { id },
+    data: { status: next, respondedAt: new Date() },
+    select: settlementSelect,
+  });
+  console.log("/settlements respond:", { id, status: next });
+  return res.json(serializeSettlement(updated));
+}
+
+/**
+ * @swagger
+ * /settlements/{settlementId}/confirm:
+ *   patch:
+ *     summary: Confirm a payment you received (payee only); it then reduces the balance
+ *     tags: [Settlements]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: settlementId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *     responses:
+ *       200:
+ *         description: Settlement confirmed
+ *       409:
+ *         description: Already confirmed
+ */
+router.patch(
+  "/:settlementId/confirm",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      return await respond(req, res, "CONFIRMED", ["PENDING", "DISPUTED"]);
+    } catch (err) {
+      console.error("PATCH /settlements/:settlementId/confirm error:", err);
+      return res.status(500).json({ error: "Server error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /settlements/{settlementId}/dispute:
+ *   patch:
+ *     summary: Dispute a recorded payment (payee only); it does not affect balances
+ *     tags: [Settlements]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: settlementId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *     responses:
+ *       200:
+ *         description: Settlement disputed
+ *       409:
+ *         description: Settlement is not pending
+ */
+router.patch(
+  "/:settlementId/dispute",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      return await respond(req, res, "DISPUTED", ["PENDING"]);
+    } catch (err) {
+      console.error("PATCH /settlements/:settlementId/dispute error:", err);
+      return res.status(500).json({ error: "Server error" });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,72 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { prisma } from "../config/prisma.js";
+import {
+  renderSessionSummaryHtml,
+  verifySummaryToken,
+} from "../services/sessionSummary.js";
+
+// Public pages opened through signed links; no authentication
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Shared
+ *   description: Public pages behind signed, expiring links
+ */
+
+/**
+ * @swagger
+ * /shared/sessions/{token}:
+ *   get:
+ *     summary: Session summary opened from a share link (no auth)
+ *     tags: [Shared]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         schema:
+ *           type: string
+ *         required: true
+ *     responses:
+ *       200:
+ *         description: HTML page
+ *         content:
+ *           text/html:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Invalid or expired link
+ *       404:
+ *         description: Session no longer finalized (canceled, or reopened for edits)
+ */
+router.get("/sessions/:token", async (req: Request, res: Response) => {
+  try {
+    const sessionId = verifySummaryToken(String(req.params.token || ""));
+    if (sessionId === null)
+      return res.status(400).json({ error: "Invalid or expired link" });
+
+    const found = await prisma.sessionHistoryEntry.findUnique({
+      where: { sessionId },
+      include: { session: { select: { status: true } } },
+    });
+    // Canceled or reopened sessions stop showing their last result
+    if (!found || found.session.status !== "FINALIZED")
+      return res.status(404).json({ error: "Summary not found" });
+    const { session: _session, ...entry } = found;
+
+    res.setHeader("Content-Type", "text/html; charset=utf-8");
+    res.setHeader("Cache-Control", "private, no-store");
+    return res.send(
+      renderSessionSummaryHtml({
+        ...entry,
+        grandTotal: entry.grandTotal.toNumber(),
+      })
+    );
+  } catch (err) {
+    console.error("GET /shared/sessions/:token error:", err);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+export default router;
@@ -3,9 +3,12 @@ import type { Response } from "express";
 import bcrypt from "bcrypt";
 import { prisma } from "../config/prisma.js";
 import { authenticateToken, type AuthRequest } from "../middleware/auth.js";
+import { historyWhere } from "../services/historyQuery.js";
+import { computeUserStats } from "../services/userStats.js";
 import {
   hasJsonContentType,
   isStrongPassword,
+  parseDateParam,
   PASSWORD_POLICY_MESSAGE,
 } from "../utils/validation.js";
 
@@ -412,6 +415,232 @@ router.delete(
   }
 );
 
+/**
+ * @swagger
+ * /user/stats:
+ *   get:
+ *     summary: Spending analytics over the current user's finalized sessions
+ *     description: |
+ *       Computed from SessionHistoryEntry rows the user created or took part in, using the allocations stored at finalize.
+ *       Canceled sessions are left out, as in `/balances`.
+ *       `spent` is the user's own share; `byKind` splits it by item kind (item, discount, ...) and charge kind (fee, tip, tax).
+ *       Amounts are never converted between currencies.
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         description: Only sessions finalized at or after this date (ISO 8601)
+ *         schema:
+ *           type: string
+ *           example: "2025-10-01"
+ *       - in: query
+ *         name: to
+ *         description: Only sessions finalized at or before this date; a date without time includes the whole day
+ *         schema:
+ *           type: string
+ *           example: "2025-10-31"
+ *       - in: query
+ *         name: top
+ *         description: How many co-diners to return
+ *         schema:
+ *           type: integer
+ *           default: 5
+ *           maximum: 50
+ *     responses:
+ *       200:
+ *         description: Aggregated stats
+ *         content:
+ *           application/json:
+ *             example:
+ *               range: { from: "2025-10-01T00:00:00.000Z", to: null }
+ *               sessions: 2
+ *               byCurrency:
+ *                 - { currency: "USD", sessions: 2, spent: 16, averageBill: 21.5, averageShare: 8 }
+ *               monthly:
+ *                 - { month: "2025-10", currency: "USD", sessions: 1, spent: 11 }
+ *                 - { month: "2025-11", currency: "USD", sessions: 1, spent: 5 }
+ *               byKind:
+ *                 - { kind: "discount", currency: "USD", amount: -2 }
+ *                 - { kind: "item", currency: "USD", amount: 17 }
+ *                 - { kind: "tip", currency: "USD", amount: 1 }
+ *               topCoDiners:
+ *                 - { uniqueId: "#2222", username: "bob", sessions: 2 }
+ *       400:
+ *         description: Invalid date range
+ */
+router.get(
+  "/stats",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+      const from = parseDateParam(req.query.from, false);
+      const to = parseDateParam(req.query.to, true);
+      if (from === null || to === null)
+        return res.status(400).json({ error: "from/to must be valid dates" });
+      if (from && to && from > to)
+        return res.status(400).json({ error: "from must be before to" });
+      const top = Math.min(Math.max(Number(req.query.top) || 5, 1), 50);
+
+      const me = await prisma.user.findUnique({
+        where: { id: req.user.id },
+        select: { id: true, uniqueId: true },
+      });
+      if (!me) return res.status(404).json({ error: "User not found" });
+
+      const entries = await prisma.sessionHistoryEntry.findMany({
+        where: historyWhere(me, {
+          ...(from ? { from } : {}),
+          ...(to ? { to } : {}),
+          excludeCanceled: true,
+        }),
+        orderBy: { finalizedAt: "asc" },
+        select: {
+          sessionId: true,
+          finalizedAt: true,
+          currency: true,
+          grandTotal: true,
+          participantUniqueIds: true,
+          payload: true,
+        },
+      });
+
+      const stats = computeUserStats(
+        me.uniqueId,
+        entries.map((e) => ({ ...e, grandTotal: e.grandTotal.toNumber() })),
+        top
+      );
+      const coDiners = await prisma.user.findMany({
+        where: { uniqueId: { in: stats.topCoDiners.map((c) => c.uniqueId) } },
+        select: { uniqueId: true, username: true },
+      });
+      const usernameById = new Map(
+        coDiners.map((u) => [u.uniqueId, u.username])
+      );
+
+      return res.json({
+        range: {
+          from: from ? from.toISOString() : null,
+          to: to ? to.toISOString() : null,
+        },
+        ...stats,
+        topCoDiners: stats.topCoDiners.map((c) => ({
+          uniqueId: c.uniqueId,
+          username: usernameById.get(c.uniqueId) ?? null,
+          sessions: c.sessions,
+        })),
+      });
+    } catch (err) {
+      console.error("/user/stats error:", err);
+      return res.status(500).json({ error: "Server error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /user/activity:
+ *   get:
+ *     summary: Recent activity of the current user (finalized sessions and settlements), newest first
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Activity items; `type` is "session" or "settlement"
+ */
+router.get(
+  "/activity",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+      const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100);
+      const me = await prisma.user.findUnique({
+        where: { id: req.user.id },
+        select: { id: true, uniqueId: true },
+      });
+      if (!me) return res.status(404).json({ error: "User not found" });
+
+      const [sessions, settlements] = await Promise.all([
+        prisma.sessionHistoryEntry.findMany({
+          where: {
+            OR: [
+              { creatorId: me.id },
+              { participantUniqueIds: { has: me.uniqueId } },
+            ],
+          },
+          orderBy: { finalizedAt: "desc" },
+          take: limit,
+          select: {
+            sessionId: true,
+            sessionName: true,
+            grandTotal: true,
+            currency: true,
+            finalizedAt: true,
+          },
+        }),
+        prisma.settlement.findMany({
+          where: { OR: [{ payerId: me.id }, { payeeId: me.id }] },
+          orderBy: { createdAt: "desc" },
+          take: limit,
+          select: {
+            id: true,
+            payerId: true,
+            amount: true,
+            currency: true,
+            status: true,
+            createdAt: true,
+            payer: { select: { uniqueId: true, username: true } },
+            payee: { select: { uniqueId: true, username: true } },
+          },
+        }),
+      ]);
+
+      const items = [
+        ...sessions.map((s) => ({
+          type: "session" as const,
+          at: s.finalizedAt,
+          sessionId: s.sessionId,
+          sessionName: s.sessionName,
+          grandTotal: s.grandTotal.toNumber(),
+          currency: s.currency,
+        })),
+        ...settlements.map((st) => {
+          const sent = st.payerId === me.id;
+          return {
+            type: "settlement" as const,
+            at: st.createdAt,
+            settlementId: st.id,
+            direction: sent ? "sent" : "received",
+            counterparty: sent ? st.payee : st.payer,
+            amount: st.amount.toNumber(),
+            currency: st.currency,
+            status: st.status,
+          };
+        }),
+      ]
+        .sort((a, b) => b.at.getTime() - a.at.getTime())
+        .slice(0, limit)
+        .map((item) => ({ ...item, at: item.at.toISOString() }));
+
+      return res.json(items);
+    } catch (err) {
+      console.error("/user/activity error:", err);
+      return res.status(500).json({ error: "Server error" });
+    }
+  }
+);
+
 /**
  * @swagger
  * /user/list:
@@ -10,18 +10,25 @@ import friendsRoutes from "./routes/friends.js";
 import groupsRoutes from "./routes/groups.js";
 import sessionsRoutes from "./routes/sessions.js";
 import usersRoutes from "./routes/users.js";
+import balancesRoutes from "./routes/balances.js";
+import settlementsRoutes from "./routes/settlements.js";
+import sharedRoutes from "./routes/shared.js";
 import uploadsRoutes from "./routes/uploads.js";
 import { logAuthAttempts } from "./middleware/logAuth.js";
+import { RECEIPT_MAX_BYTES, isScanPath } from "./middleware/receiptUpload.js";
 import debugRoutes from "./routes/debug.js";
 
 // Load .env
 dotenv.config();
 
 const app = express();
-// Allow configurable JSON body size (large base64 images for /sessions/scan)
-// Default increased from Express ~100kb to 4mb to fit ~3MB binary image (base64 expands ~33%).
-const JSON_LIMIT = process.env.JSON_BODY_LIMIT || "4mb";
-app.use(express.json({ limit: JSON_LIMIT }));
+// Allow configurable JSON body size. /sessions/scan is skipped here: it parses its
+// own, larger base64 body (RECEIPT_MAX_BYTES) only after authenticating the caller.
+const JSON_LIMIT = process.env.JSON_BODY_LIMIT || "1mb";
+const jsonParser = express.json({ limit: JSON_LIMIT });
+app.use((req, res, next) =>
+  isScanPath(req.path) ? next() : jsonParser(req, res, next)
+);
 
 // Configure CORS with long preflight caching and multiple origins support
 const rawCorsOrigins = (process.env.CORS_ORIGINS || "").trim();
@@ -85,6 +92,9 @@ app.use("/friends", friendsRoutes);
 app.use("/groups", groupsRoutes);
 app.use("/sessions", sessionsRoutes);
 app.use("/users", usersRoutes);
+app.use("/balances", balancesRoutes);
+app.use("/settlements", settlementsRoutes);
+app.use("/shared", sharedRoutes);
 app.use("/uploads", uploadsRoutes);
 app.use("/debug", debugRoutes);
 
@@ -115,4 +125,5 @@ console.log("DEBUG ENV:", {
   DATABASE_URL: process.env.DATABASE_URL ? "OK" : "MISSING",
   JWT_SECRET: process.env.JWT_SECRET ? "OK" : "MISSING",
   JSON_BODY_LIMIT: JSON_LIMIT,
+  RECEIPT_MAX_BYTES,
 });
@@ -0,0 +1,572 @@
+import { describe, expect, it } from "vitest";
+import {
+  AllocationError,
+  applyPayers,
+  buildSplitInput,
+  computeAllocation,
+  parseCharges,
+  parsePayers,
+  parseSplitRequest,
+  type AllocationInput,
+  type ChargeInput,
+  type ItemInput,
+} from "./allocation.js";
+
+const participants = [
+  { uniqueId: "#1111", username: "alice" },
+  { uniqueId: "#2222", username: "bob" },
+  { uniqueId: "#3333", username: "carol" },
+];
+const everyone = participants.map((p) => p.uniqueId);
+
+function run(
+  items: ItemInput[],
+  extra: Partial<Omit<AllocationInput, "items">> = {}
+) {
+  return computeAllocation({
+    currency: "USD",
+    participants,
+    items,
+    ...extra,
+  });
+}
+
+function owed(result: ReturnType<typeof run>) {
+  return Object.fromEntries(
+    result.byParticipant.map((p) => [p.uniqueId, p.amountOwed])
+  );
+}
+
+function sumMinor(values: number[], digits = 2) {
+  return values.reduce((s, v) => s + Math.round(v * 10 ** digits), 0);
+}
+
+function expectAllocationError(fn: () => unknown, code: string) {
+  try {
+    fn();
+  } catch (err) {
+    expect(err).toBeInstanceOf(AllocationError);
+    expect((err as AllocationError).code).toBe(code);
+    return;
+  }
+  throw new Error(`expected AllocationError ${code}`);
+}
+
+describe("computeAllocation rounding", () => {
+  it("splits 100.00 three ways without losing a cent", () => {
+    const result = run([
+      {
+        id: "1",
+        name: "Pizza",
+        unitPrice: 100,
+        quantity: 1,
+        assignedTo: everyone,
+      },
+    ]);
+    expect(owed(result)).toEqual({
+      "#1111": 33.34,
+      "#2222": 33.33,
+      "#3333": 33.33,
+    });
+    expect(result.grandTotal).toBe(100);
+  });
+
+  it("keeps JPY in whole yen", () => {
+    const result = run(
+      [
+        {
+          id: "1",
+          name: "Ramen",
+          unitPrice: 1000,
+          quantity: 1,
+          assignedTo: everyone,
+        },
+      ],
+      { currency: "JPY" }
+    );
+    const amounts = result.byParticipant.map((p) => p.amountOwed);
+    expect(amounts).toEqual([334, 333, 333]);
+    expect(amounts.every(Number.isInteger)).toBe(true);
+  });
+
+  it("uses three decimals for BHD", () => {
+    const result = run(
+      [
+        {
+          id: "1",
+          name: "Tea",
+          unitPrice: 1,
+          quantity: 1,
+          assignedTo: everyone,
+        },
+      ],
+      { currency: "BHD" }
+    );
+    expect(result.byParticipant.map((p) => p.amountOwed)).toEqual([
+      0.334, 0.333, 0.333,
+    ]);
+  });
+
+  it("hands remainders to the largest fractional shares, earlier first on ties", () => {
+    const result = run([
+      {
+        id: "1",
+        name: "Wine",
+        unitPrice: 10,
+        quantity: 1,
+        splitMode: "shares",
+        shares: { "#1111": 1, "#2222": 1, "#3333": 1 },
+      },
+    ]);
+    expect(owed(result)).toEqual({
+      "#1111": 3.34,
+      "#2222": 3.33,
+      "#3333": 3.33,
+    });
+  });
+
+  it("reconciles allocations and byParticipant with grandTotal after discounts and charges", () => {
+    const charges: ChargeInput[] = [
+      {
+        id: "tax",
+        kind: "tax",
+        name: "Tax",
+        distribution: "proportional",
+        percent: 8.875,
+      },
+      {
+        id: "tip",
+        kind: "tip",
+        name: "Tip",
+        distribution: "equal",
+        amount: 10,
+      },
+    ];
+    const result = run(
+      [
+        {
+          id: "1",
+          name: "Steak",
+          unitPrice: 33.33,
+          quantity: 1,
+          assignedTo: ["#1111"],
+        },
+        {
+          id: "2",
+          name: "Salad",
+          unitPrice: 7.77,
+          quantity: 3,
+          assignedTo: everyone,
+        },
+        {
+          id: "3",
+          name: "Beer",
+          unitPrice: 4.99,
+          quantity: 5,
+          splitMode: "count",
+          perPersonCount: { "#2222": 3, "#3333": 2 },
+        },
+        {
+          id: "4",
+          name: "Happy hour",
+          unitPrice: -5,
+          quantity: 1,
+          kind: "discount",
+        },
+      ],
+      { charges }
+    );
+    const grand = Math.round(result.grandTotal * 100);
+    expect(sumMinor(result.allocations.map((a) => a.shareAmount))).toBe(grand);
+    expect(sumMinor(result.byParticipant.map((p) => p.amountOwed))).toBe(grand);
+    expect(
+      sumMinor([
+        ...result.byItem.map((i) => i.total),
+        ...result.byCharge.map((c) => c.total),
+      ])
+    ).toBe(grand);
+  });
+});
+
+describe("computeAllocation split modes", () => {
+  it("splits count items by units", () => {
+    const result = run([
+      {
+        id: "1",
+        name: "Cola",
+        unitPrice: 2,
+        quantity: 6,
+        splitMode: "count",
+        perPersonCount: { "#1111": 1, "#2222": 2, "#3333": 3 },
+      },
+    ]);
+    expect(owed(result)).toEqual({ "#1111": 2, "#2222": 4, "#3333": 6 });
+  });
+
+  it("splits by percentages", () => {
+    const result = run([
+      {
+        id: "1",
+        name: "Cake",
+        unitPrice: 50,
+        quantity: 1,
+        percentages: { "#1111": 60, "#2222": 40 },
+      },
+    ]);
+    expect(owed(result)).toEqual({ "#1111": 30, "#2222": 20, "#3333": 0 });
+  });
+
+  it("charges fixed amounts first and splits the rest equally", () => {
+    const result = run([
+      {
+        id: "1",
+        name: "Bottle",
+        unitPrice: 3000,
+        quantity: 1,
+        fixedAmounts: { "#3333": 1500 },
+        assignedTo: ["#1111", "#2222"],
+      },
+    ]);
+    expect(owed(result)).toEqual({
+      "#1111": 750,
+      "#2222": 750,
+      "#3333": 1500,
+    });
+  });
+
+  it("caps a bill discount at what each participant owes", () => {
+    const result = run([
+      {
+        id: "1",
+        name: "Coffee",
+        unitPrice: 3,
+        quantity: 1,
+        assignedTo: ["#1111"],
+      },
+      {
+        id: "2",
+        name: "Lunch",
+        unitPrice: 20,
+        quantity: 1,
+        assignedTo: ["#2222"],
+      },
+      {
+        id: "3",
+        name: "Voucher",
+        unitPrice: -10,
+        quantity: 1,
+        kind: "discount",
+        distribution: "equal",
+      },
+    ]);
+    expect(owed(result)).toEqual({ "#1111": 0, "#2222": 13, "#3333": 0 });
+    expect(result.discounts).toEqual([
+      {
+        itemId: "3",
+        name: "Voucher",
+        appliesTo: null,
+        requested: 10,
+        applied: 10,
+      },
+    ]);
+  });
+});
+
+describe("computeAllocation validation", () => {
+  it("rejects unknown participants", () => {
+    expectAllocationError(
+      () =>
+        run([
+          {
+            id: "1",
+            name: "Soup",
+            unitPrice: 5,
+            quantity: 1,
+            assignedTo: ["#9999"],
+          },
+        ]),
+      "UNKNOWN_PARTICIPANT"
+    );
+    expectAllocationError(
+      () =>
+        run([
+          {
+            id: "1",
+            name: "Soup",
+            unitPrice: 5,
+            quantity: 2,
+            perPersonCount: { "#1111": 1, "#9999": 1 },
+          },
+        ]),
+      "UNKNOWN_PARTICIPANT"
+    );
+  });
+
+  it("rejects unit counts that do not match the quantity", () => {
+    expectAllocationError(
+      () =>
+        run([
+          {
+            id: "1",
+            name: "Dumplings",
+            unitPrice: 1,
+            quantity: 10,
+            perPersonCount: { "#1111": 4, "#2222": 5 },
+          },
+        ]),
+      "UNIT_MISMATCH"
+    );
+  });
+
+  it("rejects percentages that do not add up to 100", () => {
+    expectAllocationError(
+      () =>
+        run([
+          {
+            id: "1",
+            name: "Cake",
+            unitPrice: 50,
+            quantity: 1,
+            percentages: { "#1111": 60, "#2222": 30 },
+          },
+        ]),
+      "PERCENT_MISMATCH"
+    );
+  });
+
+  it("rejects fixed amounts above the item total", () => {
+    expectAllocationError(
+      () =>
+        run([
+          {
+            id: "1",
+            name: "Bottle",
+            unitPrice: 10,
+            quantity: 1,
+            fixedAmounts: { "#1111": 11 },
+          },
+        ]),
+      "FIXED_EXCEEDS_TOTAL"
+    );
+  });
+
+  it("requires participants and items", () => {
+    expectAllocationError(
+      () => computeAllocation({ currency: "USD", participants: [], items: [] }),
+      "NO_PARTICIPANTS"
+    );
+    expectAllocationError(() => run([]), "NO_ITEMS");
+  });
+});
+
+describe("parseCharges", () => {
+  it("adds the session service fee when no fee line is given", () => {
+    expect(parseCharges([], 5)).toEqual({
+      charges: [
+        {
+          id: "serviceFee",
+          kind: "fee",
+          name: "Service fee",
+          distribution: "proportional",
+          amount: 5,
+        },
+      ],
+    });
+  });
+
+  it("skips the session service fee when the receipt already has a fee line", () => {
+    const items = [
+      { id: "1", name: "Pasta", unitPrice: 20, quantity: 1 },
+      { id: "2", name: "Service 10%", unitPrice: 2, quantity: 1, kind: "fee" },
+    ];
+    expect(parseCharges([], 5, items)).toEqual({ charges: [] });
+    expect(parseCharges([], 5, items.slice(0, 1))).toMatchObject({
+      charges: [{ id: "serviceFee", amount: 5 }],
+    });
+  });
+
+  it("rejects charges with both amount and percent", () => {
+    expect(
+      parseCharges([{ kind: "tax", amount: 1, percent: 10 }], 0)
+    ).toHaveProperty("error");
+  });
+});
+
+describe("parsePayers", () => {
+  it("treats a missing list as no explicit payers", () => {
+    expect(parsePayers(undefined)).toEqual({ payers: [] });
+    expect(parsePayers({ uniqueId: "#1111" })).toEqual({
+      error: "payers must be an array",
+    });
+  });
+
+  it("rejects duplicate and invalid payers", () => {
+    expect(
+      parsePayers([
+        { uniqueId: "#1111", amount: 10 },
+        { uniqueId: " #1111 ", amount: 5 },
+      ])
+    ).toEqual({ error: "Duplicate payer #1111" });
+    expect(
+      parsePayers([
+        { uniqueId: "#1111", amount: 10 },
+        { uniqueId: "#2222", amount: -1 },
+      ])
+    ).toEqual({ error: "Invalid payer at index 1" });
+    expect(parsePayers([{ amount: 10 }])).toEqual({
+      error: "Invalid payer at index 0",
+    });
+  });
+});
+
+describe("applyPayers", () => {
+  const users = new Map(
+    participants.map((p, i) => [p.uniqueId, { id: i + 1, ...p }])
+  );
+  const creator = users.get("#1111")!;
+  const pasta: ItemInput = {
+    id: "1",
+    name: "Pasta",
+    unitPrice: 30,
+    quantity: 1,
+    assignedTo: everyone,
+  };
+
+  it("has the creator pay the whole bill by default", () => {
+    const result = applyPayers(run([pasta]), [], users, creator);
+    expect(result).toMatchObject({
+      payers: [{ userId: 1, uniqueId: "#1111", amount: 30 }],
+    });
+    if ("error" in result) throw new Error(result.error);
+    expect(result.byParticipant.map((p) => [p.paid, p.net])).toEqual([
+      [30, -20],
+      [0, 10],
+      [0, 10],
+    ]);
+  });
+
+  it("rejects payer amounts that do not add up to grandTotal", () => {
+    const payers = [
+      { uniqueId: "#1111", amount: 20 },
+      { uniqueId: "#2222", amount: 9.99 },
+    ];
+    expect(applyPayers(run([pasta]), payers, users, creator)).toEqual({
+      error: "Payer amounts (29.99) must add up to grandTotal (30)",
+    });
+  });
+
+  it("rounds payer amounts to whole yen before comparing", () => {
+    const allocation = run([{ ...pasta, name: "Ramen", unitPrice: 3000 }], {
+      currency: "JPY",
+    });
+    const split = [
+      { uniqueId: "#1111", amount: 1500.4 },
+      { uniqueId: "#2222", amount: 1499.6 },
+    ];
+    const result = applyPayers(allocation, split, users, creator);
+    expect(result).toMatchObject({
+      payers: [{ amount: 1500 }, { amount: 1500 }],
+    });
+    if ("error" in result) throw new Error(result.error);
+    expect(result.byParticipant.map((p) => p.net)).toEqual([-500, -500, 1000]);
+
+    const short = [
+      { uniqueId: "#1111", amount: 1500 },
+      { uniqueId: "#2222", amount: 1499.4 },
+    ];
+    expect(applyPayers(allocation, short, users, creator)).toEqual({
+      error: "Payer amounts (2999) must add up to grandTotal (3000)",
+    });
+  });
+});
+
+describe("split requests", () => {
+  const users = new Map(
+    participants.map((p, i) => [p.uniqueId, { id: i + 1, ...p }])
+  );
+  const session = { currency: "USD", serviceFee: 0 };
+  const item = {
+    id: "1",
+    name: "Pizza",
+    unitPrice: 30,
+    quantity: 1,
+    assignedTo: everyone,
+  };
+  const body = {
+    participants: everyone.map((uniqueId) => ({ uniqueId })),
+    items: [item],
+  };
+
+  function prepare(request: Record<string, unknown>) {
+    const parsed = parseSplitRequest(request, session);
+    if ("error" in parsed) return parsed;
+    return buildSplitInput(parsed, users);
+  }
+
+  it("falls back to the stored items and participants", () => {
+    const stored = { items: [item], participants };
+    expect(parseSplitRequest({}, session, stored)).toMatchObject({
+      participants,
+      items: [item],
+    });
+    expect(parseSplitRequest({}, session)).toEqual({
+      error: "participants array required",
+    });
+    expect(parseSplitRequest({ participants }, session)).toEqual({
+      error: "items array required",
+    });
+  });
+
+  it("fills in usernames from the user rows", () => {
+    const prepared = prepare({
+      ...body,
+      participants: [
+        { uniqueId: " #1111 ", username: "Al" },
+        { uniqueId: "#2222" },
+      ],
+    });
+    expect(prepared).toMatchObject({
+      input: {
+        participants: [
+          { uniqueId: "#1111", username: "Al" },
+          { uniqueId: "#2222", username: "bob" },
+        ],
+      },
+    });
+  });
+
+  it("rejects unknown participants and payers", () => {
+    expect(prepare({ ...body, participants: [{ uniqueId: "#9999" }] })).toEqual(
+      { error: "Unknown participants: #9999" }
+    );
+    expect(
+      prepare({ ...body, payers: [{ uniqueId: "#8888", amount: 30 }] })
+    ).toEqual({ error: "Unknown payers: #8888" });
+  });
+
+  it("rejects an unsupported split mode", () => {
+    const prepared = prepare({
+      ...body,
+      items: [{ ...item, splitMode: "random" }],
+    });
+    if ("error" in prepared) throw new Error(prepared.error);
+    expect(() => computeAllocation(prepared.input)).toThrow(
+      expect.objectContaining({ code: "UNSUPPORTED_SPLIT_MODE" })
+    );
+  });
+
+  it("rejects payers who do not add up to the grand total", () => {
+    const prepared = prepare({
+      ...body,
+      payers: [
+        { uniqueId: "#1111", amount: 10 },
+        { uniqueId: "#2222", amount: 10 },
+      ],
+    });
+    if ("error" in prepared) throw new Error(prepared.error);
+    const allocation = computeAllocation(prepared.input);
+    expect(
+      applyPayers(allocation, prepared.payers, users, users.get("#1111")!)
+    ).toEqual({ error: "Payer amounts (20) must add up to grandTotal (30)" });
+  });
+});
@@ -0,0 +1,983 @@
+import {
+  currencyDigits,
+  fromMinorUnits,
+  roundMoney,
+  splitMinorUnits,
+  toMinorUnits,
+} from "../utils/currency.js";
+
+/**
+ * Bill split engine behind /sessions/finalize: turns priced items, split rules,
+ * discounts and bill-level charges into per-participant allocations.
+ * Pure (no DB access); invalid input throws AllocationError.
+ */
+
+export interface ParticipantInfo {
+  uniqueId: string;
+  username: string;
+}
+export type SplitMode = "equal" | "count" | "percent" | "shares" | "fixed";
+
+export interface ItemInput {
+  id: string;
+  name: string;
+  price?: number;
+  unitPrice?: number;
+  totalPrice?: number;
+  quantity: number;
+  kind?: string;
+  splitMode?: SplitMode;
+  perPersonCount?: Record<string, number>;
+  percentages?: Record<string, number>; // percent mode: must sum to 100
+  shares?: Record<string, number>; // shares mode: e.g. 2:1:1
+  fixedAmounts?: Record<string, number>; // fixed mode: rest split equally among assignedTo
+  assignedTo?: string[];
+  // discounts (kind "discount" or a negative price)
+  appliesTo?: string | null;
+  percent?: number | null;
+  distribution?: "proportional" | "equal";
+}
+
+/**
+ * Distribute `total` by weights without giving anyone more than their cap.
+ * Whatever a capped participant cannot absorb is re-spread over the others;
+ * if every cap is reached the remainder is dropped (returned shares sum lower).
+ */
+function distributeCapped(
+  total: number,
+  weights: number[],
+  caps: number[]
+): number[] {
+  const shares = weights.map(() => 0);
+  let remaining = total;
+  let active = weights
+    .map((w, idx) => (w > 0 && (caps[idx] ?? 0) > 0 ? idx : -1))
+    .filter((idx) => idx >= 0);
+  while (remaining > 1e-9 && active.length > 0) {
+    const weightSum = active.reduce((s, idx) => s + weights[idx]!, 0);
+    const stillOpen: number[] = [];
+    let given = 0;
+    for (const idx of active) {
+      const room = caps[idx]! - shares[idx]!;
+      const give = Math.min((remaining * weights[idx]!) / weightSum, room);
+      shares[idx] = shares[idx]! + give;
+      given += give;
+      if (room - give > 1e-9) stillOpen.push(idx);
+    }
+    remaining -= given;
+    if (stillOpen.length === active.length) break;
+    active = stillOpen;
+  }
+  return shares;
+}
+
+export type ChargeKind = "tax" | "tip" | "fee";
+export type ChargeDistribution = "proportional" | "equal" | "perHead";
+const CHARGE_KINDS: readonly ChargeKind[] = ["tax", "tip", "fee"];
+const CHARGE_DISTRIBUTIONS: readonly ChargeDistribution[] = [
+  "proportional",
+  "equal",
+  "perHead",
+];
+
+/**
+ * Bill-level charge (tax, tip, service fee) spread over all participants:
+ * - proportional: by each participant's item subtotal
+ * - equal: same share for everyone
+ * - perHead: `amount` is charged to every participant
+ * Either a fixed `amount` or a `percent` of the item subtotal (not for perHead).
+ */
+export interface ChargeInput {
+  id: string;
+  kind: ChargeKind;
+  name: string;
+  distribution: ChargeDistribution;
+  amount?: number;
+  percent?: number;
+}
+
+/**
+ * Validate request charges. `items` are the receipt lines being split: when one
+ * of them is already a fee (e.g. a scanned service-charge line), Session.serviceFee
+ * is not added on top of it.
+ */
+export function parseCharges(
+  raw: unknown,
+  serviceFee: number,
+  items: unknown[] = []
+): { charges: ChargeInput[] } | { error: string } {
+  const list: unknown[] = Array.isArray(raw) ? raw : [];
+  const charges: ChargeInput[] = [];
+  for (const [idx, entry] of list.entries()) {
+    const c = (entry || {}) as Record<string, unknown>;
+    const kind = String(c.kind ?? "").toLowerCase() as ChargeKind;
+    if (!CHARGE_KINDS.includes(kind)) {
+      return { error: `Invalid charge kind at index ${idx}` };
+    }
+    const distribution = (c.distribution ??
+      "proportional") as ChargeDistribution;
+    if (!CHARGE_DISTRIBUTIONS.includes(distribution)) {
+      return { error: `Invalid charge distribution at index ${idx}` };
+    }
+    const amount = c.amount != null ? Number(c.amount) : undefined;
+    const percent = c.percent != null ? Number(c.percent) : undefined;
+    if ((amount == null) === (percent == null)) {
+      return { error: `Charge at index ${idx} needs either amount or percent` };
+    }
+    if (amount != null && (!Number.isFinite(amount) || amount < 0)) {
+      return { error: `Invalid charge amount at index ${idx}` };
+    }
+    if (percent != null && (!Number.isFinite(percent) || percent < 0)) {
+      return { error: `Invalid charge percent at index ${idx}` };
+    }
+    if (distribution === "perHead" && amount == null) {
+      return { error: `perHead charge at index ${idx} requires amount` };
+    }
+    const id = c.id != null ? String(c.id) : `${kind}-${idx + 1}`;
+    if (charges.some((ch) => ch.id === id)) {
+      return { error: `Duplicate charge id ${id}` };
+    }
+    charges.push({
+      id,
+      kind,
+      name: typeof c.name === "string" && c.name ? c.name : kind,
+      distribution,
+      ...(amount != null ? { amount } : {}),
+      ...(percent != null ? { percent } : {}),
+    });
+  }
+  // Session.serviceFee applies unless the request or the receipt has its own fee line
+  const itemHasFee = items.some(
+    (it) => String((it as any)?.kind ?? "").toLowerCase() === "fee"
+  );
+  if (serviceFee > 0 && !itemHasFee && !charges.some((c) => c.kind === "fee")) {
+    charges.push({
+      id: "serviceFee",
+      kind: "fee",
+      name: "Service fee",
+      distribution: "proportional",
+      amount: serviceFee,
+    });
+  }
+  return { charges };
+}
+
+export type AllocationErrorCode =
+  | "NO_PARTICIPANTS"
+  | "NO_ITEMS"
+  | "INVALID_ITEM"
+  | "UNKNOWN_PARTICIPANT"
+  | "UNKNOWN_ITEM"
+  | "INVALID_SHARE"
+  | "UNIT_MISMATCH"
+  | "PERCENT_MISMATCH"
+  | "FIXED_EXCEEDS_TOTAL"
+  | "MISSING_ASSIGNMENT"
+  | "UNSUPPORTED_SPLIT_MODE"
+  | "UNSUPPORTED_DISTRIBUTION";
+
+/** Invalid split input; routes answer 400 with `{ error, code }` */
+export class AllocationError extends Error {
+  readonly statusCode = 400;
+
+  constructor(readonly code: AllocationErrorCode, message: string) {
+    super(message);
+    this.name = "AllocationError";
+  }
+}
+
+export interface AllocationInput {
+  currency: string;
+  participants: ParticipantInfo[];
+  items: ItemInput[];
+  charges?: ChargeInput[];
+}
+
+export interface ItemAllocation {
+  itemId: string;
+  participantId: string;
+  shareAmount: number; // negative for discounts
+  shareRatio?: number;
+  shareUnits?: number;
+  shareWeight?: number;
+  fixedAmount?: number;
+}
+
+export interface ChargeAllocation {
+  chargeId: string;
+  kind: ChargeKind;
+  participantId: string;
+  shareAmount: number;
+  shareRatio: number;
+}
+
+export interface ItemTotal {
+  itemId: string;
+  name: string;
+  total: number;
+  kind?: string;
+}
+
+export interface ChargeTotal {
+  chargeId: string;
+  name: string;
+  kind: ChargeKind;
+  distribution: ChargeDistribution;
+  percent?: number;
+  total: number;
+}
+
+export interface DiscountSummary {
+  itemId: string;
+  name: string;
+  appliesTo: string | null;
+  requested: number;
+  applied: number;
+}
+
+export interface ParticipantTotal {
+  uniqueId: string;
+  username: string;
+  itemsSubtotal: number;
+  discounts: number;
+  charges: Record<ChargeKind, number>;
+  amountOwed: number;
+  participantId: string;
+  total: number;
+}
+
+export interface AllocationResult {
+  currency: string;
+  grandTotal: number;
+  byParticipant: ParticipantTotal[];
+  byItem: ItemTotal[];
+  byCharge: ChargeTotal[];
+  discounts: DiscountSummary[];
+  allocations: Array<ItemAllocation | ChargeAllocation>;
+}
+
+/**
+ * Compute who owes what. Amounts are rounded to the currency's minor unit and
+ * split in integer minor units, so allocations and byParticipant add up exactly
+ * to grandTotal.
+ */
+export function computeAllocation(input: AllocationInput): AllocationResult {
+  const { currency, items } = input;
+  const pList = input.participants;
+  const charges = input.charges ?? [];
+  if (pList.length === 0) {
+    throw new AllocationError("NO_PARTICIPANTS", "participants array required");
+  }
+  if (items.length === 0) {
+    throw new AllocationError("NO_ITEMS", "items array required");
+  }
+  const participantIndex = new Map<string, ParticipantInfo>();
+  for (const p of pList) participantIndex.set(p.uniqueId, p);
+
+  const allocs: ItemAllocation[] = [];
+  const discountInputs: ItemInput[] = [];
+  // We'll derive totals AFTER generating allocations to have a single source of truth.
+  const itemMeta = new Map<string, { name: string; kind?: string }>();
+
+  // All amounts are kept on the currency's minor-unit grid (0 decimals for JPY, 3 for BHD...)
+  function roundAmount(n: number) {
+    return roundMoney(n, currency);
+  }
+
+  // Split an amount by weights in integer minor units so the parts add up exactly
+  function splitByWeights(total: number, weights: number[]) {
+    return splitMinorUnits(toMinorUnits(total, currency), weights).map(
+      (minor) => fromMinorUnits(minor, currency)
+    );
+  }
+
+  for (const raw of items) {
+    if (!raw || typeof raw !== "object") continue;
+    const { id, name, quantity } = raw;
+    // prefer explicit price/unitPrice; else derive from totalPrice/quantity
+    let unitPrice = Number(
+      raw.price ??
+        raw.unitPrice ??
+        (raw.totalPrice && quantity
+          ? Number(raw.totalPrice) / Number(quantity)
+          : NaN)
+    );
+    const qty = Number(quantity);
+    const isDiscount =
+      String(raw.kind || "").toLowerCase() === "discount" || unitPrice < 0;
+    // percent-only discounts ("10% off") may come without a price
+    if (isDiscount && !Number.isFinite(unitPrice) && raw.percent != null) {
+      unitPrice = 0;
+    }
+    // infer splitMode if missing
+    let splitMode: SplitMode | undefined = raw.splitMode;
+    if (!splitMode) {
+      if (raw.perPersonCount) splitMode = "count";
+      else if (raw.percentages) splitMode = "percent";
+      else if (raw.shares) splitMode = "shares";
+      else if (raw.fixedAmounts) splitMode = "fixed";
+      else splitMode = "equal";
+    }
+    if (
+      !id ||
+      !name ||
+      !Number.isFinite(unitPrice) ||
+      !Number.isFinite(qty) ||
+      qty <= 0
+    ) {
+      throw new AllocationError(
+        "INVALID_ITEM",
+        `Invalid item fields for id=${id}`
+      );
+    }
+    if (raw.kind != null) {
+      itemMeta.set(id, { name, kind: raw.kind });
+    } else {
+      itemMeta.set(id, { name });
+    }
+    if (isDiscount) {
+      // Applied after all priced items so shares can be capped by what each person owes
+      itemMeta.set(id, { name, kind: "discount" });
+      discountInputs.push({ ...raw, unitPrice, quantity: qty });
+      continue;
+    }
+
+    if (splitMode === "count") {
+      const counts = raw.perPersonCount || {};
+      // Validate participants
+      let sumUnits = 0;
+      for (const [pid, units] of Object.entries(counts)) {
+        if (!participantIndex.has(pid)) {
+          throw new AllocationError(
+            "UNKNOWN_PARTICIPANT",
+            `Unknown participant in perPersonCount: ${pid}`
+          );
+        }
+        const u = Number(units) || 0;
+        if (u < 0)
+          throw new AllocationError(
+            "INVALID_SHARE",
+            `Negative units for ${pid}`
+          );
+        sumUnits += u;
+      }
+      if (sumUnits !== qty) {
+        throw new AllocationError(
+          "UNIT_MISMATCH",
+          `Sum of perPersonCount (${sumUnits}) must equal quantity (${qty}) for item ${id}`
+        );
+      }
+      const unitEntries = Object.entries(counts).map(
+        ([pid, units]) => [pid, Number(units) || 0] as const
+      );
+      const amounts = splitByWeights(
+        roundAmount(unitPrice * qty),
+        unitEntries.map(([, u]) => u)
+      );
+      unitEntries.forEach(([pid, u], idx) => {
+        allocs.push({
+          itemId: id,
+          participantId: pid,
+          shareUnits: u,
+          shareAmount: amounts[idx]!,
+        });
+        // participant totals will be derived later
+      });
+    } else if (splitMode === "equal") {
+      const assigned = Array.isArray(raw.assignedTo) ? raw.assignedTo : [];
+      if (assigned.length === 0) {
+        throw new AllocationError(
+          "MISSING_ASSIGNMENT",
+          `assignedTo required for equal split item ${id}`
+        );
+      }
+      const valid = assigned.filter((pid) => participantIndex.has(pid));
+      if (valid.length !== assigned.length) {
+        throw new AllocationError(
+          "UNKNOWN_PARTICIPANT",
+          `Unknown participant in assignedTo for item ${id}`
+        );
+      }
+      const ratio = 1 / valid.length;
+      const amounts = splitByWeights(
+        roundAmount(unitPrice * qty),
+        valid.map(() => 1)
+      );
+      valid.forEach((pid, idx) => {
+        allocs.push({
+          itemId: id,
+          participantId: pid,
+          shareRatio: ratio,
+          shareAmount: amounts[idx]!,
+        });
+        // participant totals will be derived later
+      });
+    } else if (splitMode === "percent" || splitMode === "shares") {
+      const field = splitMode === "percent" ? "percentages" : "shares";
+      const entries = Object.entries(
+        (splitMode === "percent" ? raw.percentages : raw.shares) || {}
+      ).map(([pid, v]) => [pid, Number(v)] as const);
+      if (entries.length === 0) {
+        throw new AllocationError(
+          "MISSING_ASSIGNMENT",
+          `${field} required for ${splitMode} split item ${id}`
+        );
+      }
+      for (const [pid, v] of entries) {
+        if (!participantIndex.has(pid)) {
+          throw new AllocationError(
+            "UNKNOWN_PARTICIPANT",
+            `Unknown participant in ${field}: ${pid}`
+          );
+        }
+        if (!Number.isFinite(v) || v < 0) {
+          throw new AllocationError(
+            "INVALID_SHARE",
+            `Invalid ${field} value for ${pid}`
+          );
+        }
+      }
+      const weightSum = entries.reduce((s, [, v]) => s + v, 0);
+      if (splitMode === "percent" && Math.abs(weightSum - 100) > 1e-6) {
+        throw new AllocationError(
+          "PERCENT_MISMATCH",
+          `Sum of percentages (${weightSum}) must equal 100 for item ${id}`
+        );
+      }
+      if (weightSum <= 0) {
+        throw new AllocationError(
+          "INVALID_SHARE",
+          `Sum of shares must be positive for item ${id}`
+        );
+      }
+      const amounts = splitByWeights(
+        roundAmount(unitPrice * qty),
+        entries.map(([, v]) => v)
+      );
+      entries.forEach(([pid, v], idx) => {
+        allocs.push({
+          itemId: id,
+          participantId: pid,
+          shareRatio: v / weightSum,
+          ...(splitMode === "shares" ? { shareWeight: v } : {}),
+          shareAmount: amounts[idx]!,
+        });
+      });
+    } else if (splitMode === "fixed") {
+      const itemTotal = roundAmount(unitPrice * qty);
+      const fixed = Object.entries(raw.fixedAmounts || {}).map(
+        ([pid, v]) => [pid, roundAmount(Number(v))] as const
+      );
+      for (const [pid, v] of fixed) {
+        if (!participantIndex.has(pid)) {
+          throw new AllocationError(
+            "UNKNOWN_PARTICIPANT",
+            `Unknown participant in fixedAmounts: ${pid}`
+          );
+        }
+        if (!Number.isFinite(v) || v < 0) {
+          throw new AllocationError(
+            "INVALID_SHARE",
+            `Invalid fixed amount for ${pid}`
+          );
+        }
+      }
+      const fixedSum = roundAmount(fixed.reduce((s, [, v]) => s + v, 0));
+      if (fixedSum > itemTotal) {
+        throw new AllocationError(
+          "FIXED_EXCEEDS_TOTAL",
+          `Sum of fixedAmounts (${fixedSum}) exceeds item total (${itemTotal}) for item ${id}`
+        );
+      }
+      const rest = roundAmount(itemTotal - fixedSum);
+      const assigned = Array.isArray(raw.assignedTo) ? raw.assignedTo : [];
+      if (assigned.some((pid) => !participantIndex.has(pid))) {
+        throw new AllocationError(
+          "UNKNOWN_PARTICIPANT",
+          `Unknown participant in assignedTo for item ${id}`
+        );
+      }
+      if (rest > 0 && assigned.length === 0) {
+        throw new AllocationError(
+          "MISSING_ASSIGNMENT",
+          `assignedTo required to split the remaining ${rest} of item ${id}`
+        );
+      }
+      const restShares =
+        rest > 0
+          ? splitByWeights(
+              rest,
+              assigned.map(() => 1)
+            )
+          : [];
+      const perPid = new Map<string, { fixed: number; rest: number }>();
+      for (const [pid, v] of fixed) {
+        perPid.set(pid, { fixed: v, rest: 0 });
+      }
+      assigned.forEach((pid, idx) => {
+        const entry = perPid.get(pid) || { fixed: 0, rest: 0 };
+        entry.rest = restShares[idx] ?? 0;
+        perPid.set(pid, entry);
+      });
+      for (const [pid, part] of perPid) {
+        const shareAmount = roundAmount(part.fixed + part.rest);
+        allocs.push({
+          itemId: id,
+          participantId: pid,
+          shareRatio: itemTotal ? shareAmount / itemTotal : 0,
+          fixedAmount: part.fixed,
+          shareAmount,
+        });
+      }
+    } else {
+      throw new AllocationError(
+        "UNSUPPORTED_SPLIT_MODE",
+        `Unsupported splitMode '${splitMode}' for item ${id}`
+      );
+    }
+  }
+
+  // Discounts: line-level first (appliesTo), then bill-level; nobody's net goes below zero
+  const itemSharesBy = new Map<string, Map<string, number>>();
+  const netBy = new Map<string, number>();
+  for (const a of allocs) {
+    const shares = itemSharesBy.get(a.itemId) || new Map<string, number>();
+    shares.set(
+      a.participantId,
+      roundAmount((shares.get(a.participantId) || 0) + a.shareAmount)
+    );
+    itemSharesBy.set(a.itemId, shares);
+    netBy.set(
+      a.participantId,
+      roundAmount((netBy.get(a.participantId) || 0) + a.shareAmount)
+    );
+  }
+  const discountSummary: Array<{
+    itemId: string;
+    name: string;
+    appliesTo: string | null;
+    requested: number;
+    applied: number;
+  }> = [];
+  const orderedDiscounts = [
+    ...discountInputs.filter((d) => d.appliesTo),
+    ...discountInputs.filter((d) => !d.appliesTo),
+  ];
+  for (const d of orderedDiscounts) {
+    const distribution = d.distribution ?? "proportional";
+    if (distribution !== "proportional" && distribution !== "equal") {
+      throw new AllocationError(
+        "UNSUPPORTED_DISTRIBUTION",
+        `Unsupported discount distribution '${distribution}' for item ${d.id}`
+      );
+    }
+    if (
+      Array.isArray(d.assignedTo) &&
+      d.assignedTo.some((pid) => !participantIndex.has(pid))
+    ) {
+      throw new AllocationError(
+        "UNKNOWN_PARTICIPANT",
+        `Unknown participant in assignedTo for item ${d.id}`
+      );
+    }
+    const restrictTo =
+      Array.isArray(d.assignedTo) && d.assignedTo.length > 0
+        ? new Set(d.assignedTo)
+        : null;
+
+    let pids: string[];
+    let base: number[];
+    const targetShares = d.appliesTo ? itemSharesBy.get(d.appliesTo) : null;
+    if (d.appliesTo) {
+      if (!targetShares) {
+        throw new AllocationError(
+          "UNKNOWN_ITEM",
+          `Discount ${d.id} applies to unknown item ${d.appliesTo}`
+        );
+      }
+      pids = [...targetShares.keys()];
+      base = pids.map((pid) => targetShares.get(pid) || 0);
+    } else {
+      pids = pList.map((p) => p.uniqueId);
+      base = pids.map((pid) => netBy.get(pid) || 0);
+    }
+    if (restrictTo) {
+      base = base.filter((_, idx) => restrictTo.has(pids[idx]!));
+      pids = pids.filter((pid) => restrictTo.has(pid));
+    }
+    const caps = pids.map((pid, idx) =>
+      Math.max(0, Math.min(base[idx]!, netBy.get(pid) || 0))
+    );
+    const baseTotal = base.reduce((s, v) => s + Math.max(0, v), 0);
+    const requested =
+      d.percent != null && Number(d.percent) > 0
+        ? roundAmount((baseTotal * Number(d.percent)) / 100)
+        : roundAmount(Math.abs(Number(d.unitPrice) * Number(d.quantity)));
+    const weights =
+      distribution === "equal"
+        ? caps.map((c) => (c > 0 ? 1 : 0))
+        : caps.map((c, idx) => (c > 0 ? Math.max(0, base[idx]!) : 0));
+    const raw = distributeCapped(requested, weights, caps);
+    // Round down to minor units, then hand out the leftover units by largest
+    // fractional remainder (earlier participant on ties) without exceeding caps
+    const factor = 10 ** currencyDigits(currency);
+    const exactMinor = raw.map((v) => v * factor);
+    const minorShares = exactMinor.map((v) => Math.floor(v + 1e-6));
+    const capMinor = caps.map((c) => toMinorUnits(c, currency));
+    let drift =
+      toMinorUnits(
+        raw.reduce((s, v) => s + v, 0),
+        currency
+      ) - minorShares.reduce((s, v) => s + v, 0);
+    const order = exactMinor
+      .map((v, idx) => ({ idx, frac: v - minorShares[idx]! }))
+      .sort((a, b) => b.frac - a.frac || a.idx - b.idx);
+    for (const { idx } of order) {
+      if (drift <= 0) break;
+      const add = Math.min(capMinor[idx]! - minorShares[idx]!, drift);
+      if (add <= 0) continue;
+      minorShares[idx] = minorShares[idx]! + add;
+      drift -= add;
+    }
+    const shares = minorShares.map((v) => fromMinorUnits(v, currency));
+    const applied = roundAmount(shares.reduce((s, v) => s + v, 0));
+    pids.forEach((pid, idx) => {
+      const share = shares[idx]!;
+      if (share <= 0) return;
+      allocs.push({
+        itemId: d.id,
+        participantId: pid,
+        shareRatio: applied ? share / applied : 0,
+        shareAmount: -share,
+      });
+      netBy.set(pid, roundAmount((netBy.get(pid) || 0) - share));
+      if (targetShares) {
+        targetShares.set(
+          pid,
+          roundAmount((targetShares.get(pid) || 0) - share)
+        );
+      }
+    });
+    discountSummary.push({
+      itemId: d.id,
+      name: d.name,
+      appliesTo: d.appliesTo ?? null,
+      requested,
+      applied,
+    });
+  }
+
+  // Item subtotal per participant drives proportional charges
+  const itemsSubtotalBy = new Map<string, number>();
+  for (const a of allocs) {
+    itemsSubtotalBy.set(
+      a.participantId,
+      roundAmount((itemsSubtotalBy.get(a.participantId) || 0) + a.shareAmount)
+    );
+  }
+  const itemsSubtotal = roundAmount(
+    Array.from(itemsSubtotalBy.values()).reduce((s, v) => s + v, 0)
+  );
+
+  const chargeAllocs: ChargeAllocation[] = [];
+  const byCharge = charges.map((charge) => {
+    const pids = pList.map((p) => p.uniqueId);
+    let shares: number[];
+    if (charge.distribution === "perHead") {
+      shares = pids.map(() => roundAmount(charge.amount!));
+    } else {
+      const total =
+        charge.amount != null
+          ? roundAmount(charge.amount)
+          : roundAmount((itemsSubtotal * charge.percent!) / 100);
+      const weights =
+        charge.distribution === "equal"
+          ? pids.map(() => 1)
+          : pids.map((pid) => itemsSubtotalBy.get(pid) || 0);
+      shares = splitByWeights(total, weights);
+    }
+    const chargeTotal = roundAmount(shares.reduce((s, v) => s + v, 0));
+    pids.forEach((pid, idx) => {
+      const shareAmount = shares[idx]!;
+      if (shareAmount === 0) return;
+      chargeAllocs.push({
+        chargeId: charge.id,
+        kind: charge.kind,
+        participantId: pid,
+        shareAmount,
+        shareRatio: chargeTotal ? shareAmount / chargeTotal : 0,
+      });
+    });
+    return {
+      chargeId: charge.id,
+      name: charge.name,
+      kind: charge.kind,
+      distribution: charge.distribution,
+      ...(charge.percent != null ? { percent: charge.percent } : {}),
+      total: chargeTotal,
+    };
+  });
+
+  // Derive totals from allocations
+  const byItemMap = new Map<string, ItemTotal>();
+  const byParticipantTotals = new Map<string, number>();
+  for (const a of allocs) {
+    const itemId = a.itemId;
+    const shareAmount = Number(a.shareAmount) || 0;
+    if (!byItemMap.has(itemId)) {
+      const meta = itemMeta.get(itemId);
+      byItemMap.set(itemId, {
+        itemId,
+        name: meta?.name || itemId,
+        total: 0,
+        ...(meta?.kind ? { kind: meta.kind } : {}),
+      });
+    }
+    const entry = byItemMap.get(itemId)!;
+    entry.total = roundAmount(entry.total + shareAmount);
+    const pid = a.participantId;
+    byParticipantTotals.set(
+      pid,
+      roundAmount((byParticipantTotals.get(pid) || 0) + shareAmount)
+    );
+  }
+  const chargesBy = new Map<string, Record<ChargeKind, number>>();
+  for (const a of chargeAllocs) {
+    const pid = a.participantId;
+    const breakdown = chargesBy.get(pid) || { tax: 0, tip: 0, fee: 0 };
+    breakdown[a.kind as ChargeKind] = roundAmount(
+      breakdown[a.kind as ChargeKind] + a.shareAmount
+    );
+    chargesBy.set(pid, breakdown);
+    byParticipantTotals.set(
+      pid,
+      roundAmount((byParticipantTotals.get(pid) || 0) + a.shareAmount)
+    );
+  }
+  const discountsBy = new Map<string, number>();
+  for (const a of allocs) {
+    if (a.shareAmount >= 0) continue;
+    discountsBy.set(
+      a.participantId,
+      roundAmount((discountsBy.get(a.participantId) || 0) + a.shareAmount)
+    );
+  }
+  const byItem = Array.from(byItemMap.values());
+  const grandTotal = roundAmount(
+    byItem.reduce((s, it) => s + it.total, 0) +
+      byCharge.reduce((s, c) => s + c.total, 0)
+  );
+  const byParticipant = pList.map((p) => {
+    const amount = roundAmount(byParticipantTotals.get(p.uniqueId) || 0);
+    return {
+      uniqueId: p.uniqueId,
+      username: p.username,
+      itemsSubtotal: itemsSubtotalBy.get(p.uniqueId) || 0,
+      discounts: discountsBy.get(p.uniqueId) || 0,
+      charges: chargesBy.get(p.uniqueId) || { tax: 0, tip: 0, fee: 0 },
+      amountOwed: amount,
+      participantId: p.uniqueId,
+      total: amount,
+    };
+  });
+
+  return {
+    currency,
+    grandTotal,
+    byParticipant,
+    byItem,
+    byCharge,
+    discounts: discountSummary,
+    allocations: [...allocs, ...chargeAllocs],
+  };
+}
+
+/** User row a participant or payer uniqueId resolves to */
+export interface SplitUser {
+  id: number;
+  uniqueId: string;
+  username: string;
+}
+
+/** byParticipant row with what the participant paid and their net position */
+export type ParticipantPosition = ParticipantTotal & {
+  paid: number;
+  net: number;
+};
+
+/** Someone who paid (part of) the bill; validated by parsePayers */
+export interface PayerInput {
+  uniqueId: string;
+  amount: number;
+}
+
+/** Validate request payers; an absent list means the creator paid everything */
+export function parsePayers(
+  raw: unknown
+): { payers: PayerInput[] } | { error: string } {
+  if (raw == null) return { payers: [] };
+  if (!Array.isArray(raw)) return { error: "payers must be an array" };
+  const payers: PayerInput[] = [];
+  for (const [idx, entry] of raw.entries()) {
+    const p = (entry || {}) as Record<string, unknown>;
+    const uniqueId = String(p.uniqueId ?? "").trim();
+    const amount = Number(p.amount);
+    if (!uniqueId || !Number.isFinite(amount) || amount < 0) {
+      return { error: `Invalid payer at index ${idx}` };
+    }
+    if (payers.some((p) => p.uniqueId === uniqueId)) {
+      return { error: `Duplicate payer ${uniqueId}` };
+    }
+    payers.push({ uniqueId, amount });
+  }
+  return { payers };
+}
+
+/**
+ * Who paid the bill: the given payers (their amounts must add up to grandTotal)
+ * or, when none are given, the creator for the whole amount. Adds `paid` and
+ * `net` (share owed minus amount paid; negative = is owed money) to byParticipant.
+ */
+export function applyPayers(
+  allocation: AllocationResult,
+  payers: PayerInput[],
+  users: Map<string, SplitUser>,
+  creator: SplitUser
+) {
+  const { currency, grandTotal } = allocation;
+  const resolved =
+    payers.length > 0
+      ? payers.map((p) => ({
+          userId: users.get(p.uniqueId)!.id,
+          uniqueId: p.uniqueId,
+          username: users.get(p.uniqueId)!.username,
+          amount: roundMoney(p.amount, currency),
+        }))
+      : [
+          {
+            userId: creator.id,
+            uniqueId: creator.uniqueId,
+            username: creator.username,
+            amount: grandTotal,
+          },
+        ];
+  const paidMinor = resolved.reduce(
+    (s, p) => s + toMinorUnits(p.amount, currency),
+    0
+  );
+  if (paidMinor !== toMinorUnits(grandTotal, currency)) {
+    return {
+      error: `Payer amounts (${fromMinorUnits(
+        paidMinor,
+        currency
+      )}) must add up to grandTotal (${grandTotal})`,
+    };
+  }
+  const paidBy = new Map(resolved.map((p) => [p.uniqueId, p.amount]));
+  const byParticipant = allocation.byParticipant.map(
+    (p): ParticipantPosition => {
+      const paid = paidBy.get(p.uniqueId) ?? 0;
+      return {
+        ...p,
+        paid,
+        net: fromMinorUnits(
+          toMinorUnits(p.amountOwed, currency) - toMinorUnits(paid, currency),
+          currency
+        ),
+      };
+    }
+  );
+  return { payers: resolved, byParticipant };
+}
+
+/** Finalize/preview request after validation, before uniqueIds are resolved to users */
+export interface SplitRequest {
+  currency: string;
+  participants: { uniqueId: string; username?: string }[];
+  items: ItemInput[];
+  charges: ChargeInput[];
+  payers: PayerInput[];
+}
+
+/**
+ * Validate a finalize/preview body. Without explicit items the `stored` receipt
+ * items and their assignments are used (participants default to the stored ones).
+ */
+export function parseSplitRequest(
+  body: Record<string, unknown>,
+  session: { currency: string; serviceFee: number },
+  stored?: { items: unknown[]; participants: unknown[] }
+): SplitRequest | { error: string } {
+  let participants: unknown[] = Array.isArray(body.participants)
+    ? body.participants
+    : [];
+  let items: unknown[] = Array.isArray(body.items) ? body.items : [];
+  if (items.length === 0 && stored) {
+    items = stored.items;
+    if (participants.length === 0) participants = stored.participants;
+  }
+  if (participants.length === 0) {
+    return { error: "participants array required" };
+  }
+  if (items.length === 0) {
+    return { error: "items array required" };
+  }
+  const parsedCharges = parseCharges(body.charges, session.serviceFee, items);
+  if ("error" in parsedCharges) return parsedCharges;
+  const parsedPayers = parsePayers(body.payers);
+  if ("error" in parsedPayers) return parsedPayers;
+
+  const byId = new Map<string, { uniqueId: string; username?: string }>();
+  for (const entry of participants) {
+    const p = (entry || {}) as Record<string, unknown>;
+    const uniqueId = String(p.uniqueId ?? "").trim();
+    if (byId.has(uniqueId)) continue;
+    byId.set(uniqueId, {
+      uniqueId,
+      ...(typeof p.username === "string" && p.username
+        ? { username: p.username }
+        : {}),
+    });
+  }
+  return {
+    currency: session.currency,
+    participants: Array.from(byId.values()),
+    items: items as ItemInput[],
+    charges: parsedCharges.charges,
+    payers: parsedPayers.payers,
+  };
+}
+
+/**
+ * Turn a parsed split request into allocation input. Every participant and payer
+ * must be one of `users`; participants without a username get the user's.
+ */
+export function buildSplitInput(
+  request: SplitRequest,
+  users: Map<string, SplitUser>
+): { input: AllocationInput; payers: PayerInput[] } | { error: string } {
+  const unknownIds = request.participants
+    .map((p) => p.uniqueId)
+    .filter((id) => !users.has(id));
+  if (unknownIds.length > 0) {
+    return { error: `Unknown participants: ${unknownIds.join(", ")}` };
+  }
+  const unknownPayers = request.payers
+    .map((p) => p.uniqueId)
+    .filter((id) => !users.has(id));
+  if (unknownPayers.length > 0) {
+    return { error: `Unknown payers: ${unknownPayers.join(", ")}` };
+  }
+  return {
+    input: {
+      currency: request.currency,
+      participants: request.participants.map((p) => ({
+        uniqueId: p.uniqueId,
+        username: p.username ?? users.get(p.uniqueId)!.username,
+      })),
+      items: request.items,
+      charges: request.charges,
+    },
+    payers: request.payers,
+  };
+}
@@ -0,0 +1,33 @@
+import { prisma } from "../config/prisma.js";
+import { settlementLines, type LedgerLine } from "./ledger.js";
+
+/**
+ * Ledger lines for every finalized (not canceled) session of a group, plus confirmed settlements
+ * recorded against the group.
+ * A session without LedgerEntry rows has no debts (its payers covered their own shares);
+ * sessions finalized before the ledger existed were backfilled by migration.
+ */
+export async function loadGroupLedgerLines(
+  groupId: number
+): Promise<LedgerLine[]> {
+  const entries = await prisma.ledgerEntry.findMany({
+    where: { session: { groupId, status: { not: "CANCELED" } } },
+    orderBy: { id: "asc" },
+    select: { debtorId: true, creditorId: true, amount: true, currency: true },
+  });
+  const lines: LedgerLine[] = entries.map((e) => ({
+    ...e,
+    amount: e.amount.toNumber(),
+  }));
+
+  const settlements = await prisma.settlement.findMany({
+    where: { groupId, status: "CONFIRMED" },
+    select: { payerId: true, payeeId: true, amount: true, currency: true },
+  });
+  lines.push(
+    ...settlementLines(
+      settlements.map((st) => ({ ...st, amount: st.amount.toNumber() }))
+    )
+  );
+  return lines;
+}
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import { finalizedSessionFacts, summarizeGroupSpend } from "./groupSummary.js";
+
+describe("summarizeGroupSpend", () => {
+  const sessions = [
+    {
+      sessionId: 1,
+      currency: "USD",
+      grandTotal: 30.3,
+      finalizedAt: new Date("2025-10-31T23:30:00Z"),
+      shares: [
+        { userId: 1, amount: 10.1 },
+        { userId: 2, amount: 20.2 },
+      ],
+      payments: [{ userId: 1, amount: 30.3 }],
+    },
+    {
+      sessionId: 2,
+      currency: "USD",
+      grandTotal: 0.3,
+      finalizedAt: new Date("2025-11-01T08:00:00Z"),
+      shares: [
+        { userId: 1, amount: 0.1 },
+        { userId: 2, amount: 0.2 },
+      ],
+      payments: [{ userId: 2, amount: 0.3 }],
+    },
+    {
+      sessionId: 3,
+      currency: "JPY",
+      grandTotal: 4600,
+      finalizedAt: new Date("2025-11-02T12:00:00Z"),
+      shares: [
+        { userId: 1, amount: 2300 },
+        { userId: 2, amount: 2300 },
+      ],
+      payments: [{ userId: 2, amount: 4600 }],
+    },
+  ];
+
+  it("totals spend per currency without float drift", () => {
+    expect(summarizeGroupSpend(sessions).totals).toEqual([
+      { currency: "JPY", total: 4600, sessions: 1 },
+      { currency: "USD", total: 30.6, sessions: 2 },
+    ]);
+  });
+
+  it("reports what each member spent and paid per currency", () => {
+    expect(summarizeGroupSpend(sessions).members).toEqual([
+      { userId: 1, currency: "JPY", spent: 2300, paid: 0 },
+      { userId: 2, currency: "JPY", spent: 2300, paid: 4600 },
+      { userId: 1, currency: "USD", spent: 10.2, paid: 30.3 },
+      { userId: 2, currency: "USD", spent: 20.4, paid: 0.3 },
+    ]);
+  });
+
+  it("buckets by UTC month", () => {
+    expect(summarizeGroupSpend(sessions).monthly).toEqual([
+      { month: "2025-10", currency: "USD", total: 30.3, sessions: 1 },
+      { month: "2025-11", currency: "JPY", total: 4600, sessions: 1 },
+      { month: "2025-11", currency: "USD", total: 0.3, sessions: 1 },
+    ]);
+  });
+});
+
+describe("finalizedSessionFacts", () => {
+  const idByUniqueId = new Map([
+    ["#1111", 1],
+    ["#2222", 2],
+  ]);
+
+  it("reads shares from payloads stored before amountOwed was persisted", () => {
+    // Early finalize payloads: no payers, SessionParticipant rows never filled in
+    const facts = finalizedSessionFacts(
+      {
+        id: 9,
+        creatorId: 1,
+        currency: "USD",
+        grandTotal: 30,
+        finalizedAt: new Date("2025-10-01T12:00:00Z"),
+        payload: {
+          totals: {
+            grandTotal: 30,
+            byParticipant: [
+              { uniqueId: "#1111", participantId: "#1111", total: 12 },
+              { uniqueId: "#2222", participantId: "#2222", total: 18 },
+              { uniqueId: "#gone", participantId: "#gone", total: 5 },
+            ],
+          },
+        },
+        payers: [],
+      },
+      idByUniqueId
+    );
+    expect(facts.shares).toEqual([
+      { userId: 1, amount: 12 },
+      { userId: 2, amount: 18 },
+    ]);
+    expect(facts.payments).toEqual([{ userId: 1, amount: 30 }]);
+    expect(summarizeGroupSpend([facts]).members).toEqual([
+      { userId: 1, currency: "USD", spent: 12, paid: 30 },
+      { userId: 2, currency: "USD", spent: 18, paid: 0 },
+    ]);
+  });
+
+  it("prefers amountOwed and keeps recorded payers", () => {
+    const facts = finalizedSessionFacts(
+      {
+        id: 10,
+        creatorId: 1,
+        currency: "USD",
+        grandTotal: 10,
+        finalizedAt: new Date("2025-11-01T12:00:00Z"),
+        payload: {
+          totals: {
+            byParticipant: [
+              { uniqueId: "#1111", amountOwed: 4, total: 3 },
+              { uniqueId: "#2222", amountOwed: 6, total: 6 },
+            ],
+          },
+        },
+        payers: [{ userId: 2, amount: 10 }],
+      },
+      idByUniqueId
+    );
+    expect(facts.shares).toEqual([
+      { userId: 1, amount: 4 },
+      { userId: 2, amount: 6 },
+    ]);
+    expect(facts.payments).toEqual([{ userId: 2, amount: 10 }]);
+  });
+});
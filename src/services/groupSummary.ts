@@ -0,0 +1,172 @@
+import { fromMinorUnits, toMinorUnits } from "../utils/currency.js";
+import { payloadShares, type PartyAmount } from "./ledger.js";
+
+/**
+ * Aggregates for the group dashboard: spend per currency, per member and per
+ * month across a group's finalized sessions. Pure (no DB access).
+ */
+
+export interface FinalizedSessionFacts {
+  sessionId: number;
+  currency: string;
+  grandTotal: number;
+  finalizedAt: Date;
+  /** What each participant owed */
+  shares: PartyAmount[];
+  /** What each payer paid */
+  payments: PartyAmount[];
+}
+
+export interface CurrencySpend {
+  currency: string;
+  total: number;
+  sessions: number;
+}
+
+export interface MemberSpend {
+  userId: number;
+  currency: string;
+  /** Sum of the member's shares */
+  spent: number;
+  /** Sum of what the member paid up front */
+  paid: number;
+}
+
+export interface MonthlySpend extends CurrencySpend {
+  /** UTC month, "YYYY-MM" */
+  month: string;
+}
+
+export interface GroupSpendSummary {
+  totals: CurrencySpend[];
+  members: MemberSpend[];
+  monthly: MonthlySpend[];
+}
+
+/**
+ * Facts for one finalized session. Shares come from the stored finalize payload,
+ * like the settle plan, so sessions finalized before SessionParticipant.amountOwed
+ * was filled in still count. Without payer rows the creator paid everything.
+ */
+export function finalizedSessionFacts(
+  session: {
+    id: number;
+    creatorId: number;
+    currency: string;
+    grandTotal: number;
+    finalizedAt: Date;
+    payload: unknown;
+    payers: PartyAmount[];
+  },
+  idByUniqueId: Map<string, number>
+): FinalizedSessionFacts {
+  return {
+    sessionId: session.id,
+    currency: session.currency,
+    grandTotal: session.grandTotal,
+    finalizedAt: session.finalizedAt,
+    shares: payloadShares(session.payload)
+      .filter((p) => idByUniqueId.has(p.uniqueId))
+      .map((p) => ({
+        userId: idByUniqueId.get(p.uniqueId)!,
+        amount: p.amount,
+      })),
+    payments:
+      session.payers.length > 0
+        ? session.payers
+        : [{ userId: session.creatorId, amount: session.grandTotal }],
+  };
+}
+
+/** UTC month of a date, "YYYY-MM" */
+export function monthKey(date: Date) {
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(
+    2,
+    "0"
+  )}`;
+}
+
+/** Sums run in integer minor units so they match the per-session figures exactly */
+export function summarizeGroupSpend(
+  sessions: FinalizedSessionFacts[]
+): GroupSpendSummary {
+  const totals = new Map<string, { minor: number; sessions: number }>();
+  const monthly = new Map<
+    string,
+    { month: string; currency: string; minor: number; sessions: number }
+  >();
+  const members = new Map<
+    string,
+    { userId: number; currency: string; spent: number; paid: number }
+  >();
+  const member = (userId: number, currency: string) => {
+    const key = `${userId}:${currency}`;
+    const entry = members.get(key) || { userId, currency, spent: 0, paid: 0 };
+    members.set(key, entry);
+    return entry;
+  };
+
+  for (const s of sessions) {
+    const total = toMinorUnits(s.grandTotal, s.currency);
+    const t = totals.get(s.currency) || { minor: 0, sessions: 0 };
+    t.minor += total;
+    t.sessions += 1;
+    totals.set(s.currency, t);
+
+    const month = monthKey(s.finalizedAt);
+    const mKey = `${month}:${s.currency}`;
+    const m = monthly.get(mKey) || {
+      month,
+      currency: s.currency,
+      minor: 0,
+      sessions: 0,
+    };
+    m.minor += total;
+    m.sessions += 1;
+    monthly.set(mKey, m);
+
+    for (const share of s.shares) {
+      member(share.userId, s.currency).spent += toMinorUnits(
+        share.amount,
+        s.currency
+      );
+    }
+    for (const payment of s.payments) {
+      member(payment.userId, s.currency).paid += toMinorUnits(
+        payment.amount,
+        s.currency
+      );
+    }
+  }
+
+  return {
+    totals: [...totals.entries()]
+      .map(([currency, t]) => ({
+        currency,
+        total: fromMinorUnits(t.minor, currency),
+        sessions: t.sessions,
+      }))
+      .sort((a, b) => a.currency.localeCompare(b.currency)),
+    members: [...members.values()]
+      .map((e) => ({
+        userId: e.userId,
+        currency: e.currency,
+        spent: fromMinorUnits(e.spent, e.currency),
+        paid: fromMinorUnits(e.paid, e.currency),
+      }))
+      .sort(
+        (a, b) => a.currency.localeCompare(b.currency) || a.userId - b.userId
+      ),
+    monthly: [...monthly.values()]
+      .map((m) => ({
+        month: m.month,
+        currency: m.currency,
+        total: fromMinorUnits(m.minor, m.currency),
+        sessions: m.sessions,
+      }))
+      .sort(
+        (a, b) =>
+          a.month.localeCompare(b.month) || a.currency.localeCompare(b.currency)
+      ),
+  };
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { diffFinalizations } from "./historyDiff.js";
+
+type Share = [itemId: string, participantId: string, amount: number];
+
+function payload(
+  people: Array<[uniqueId: string, amountOwed: number]>,
+  items: Array<[itemId: string, name: string, total: number]>,
+  shares: Share[]
+) {
+  return {
+    totals: {
+      grandTotal: people.reduce((s, [, a]) => s + a, 0),
+      byParticipant: people.map(([uniqueId, amountOwed]) => ({
+        uniqueId,
+        username: uniqueId.slice(1),
+        participantId: `p-${uniqueId}`,
+        amountOwed,
+      })),
+      byItem: items.map(([itemId, name, total]) => ({ itemId, name, total })),
+    },
+    allocations: shares.map(([itemId, uniqueId, shareAmount]) => ({
+      itemId,
+      participantId: `p-${uniqueId}`,
+      shareAmount,
+    })),
+  };
+}
+
+describe("diffFinalizations", () => {
+  const v1 = payload(
+    [
+      ["#a", 30],
+      ["#b", 30],
+    ],
+    [
+      ["1", "Pizza", 40],
+      ["2", "Beer", 20],
+    ],
+    [
+      ["1", "#a", 20],
+      ["1", "#b", 20],
+      ["2", "#a", 10],
+      ["2", "#b", 10],
+    ]
+  );
+
+  it("reports nothing when the payloads match", () => {
+    const diff = diffFinalizations(v1, v1, "USD");
+    expect(diff.participants).toEqual([]);
+    expect(diff.items).toEqual([]);
+  });
+
+  it("flags moved items and changed totals", () => {
+    const v2 = payload(
+      [
+        ["#a", 20],
+        ["#b", 40],
+      ],
+      [
+        ["1", "Pizza", 40],
+        ["2", "Beer", 20],
+      ],
+      [
+        ["1", "#a", 20],
+        ["1", "#b", 20],
+        ["2", "#b", 20],
+      ]
+    );
+    const diff = diffFinalizations(v1, v2, "USD");
+    expect(diff.participants).toEqual([
+      { uniqueId: "#a", username: "a", before: 30, after: 20, delta: -10 },
+      { uniqueId: "#b", username: "b", before: 30, after: 40, delta: 10 },
+    ]);
+    expect(diff.items).toEqual([
+      {
+        itemId: "2",
+        name: "Beer",
+        change: "changed",
+        totalBefore: 20,
+        totalAfter: 20,
+        sharesBefore: [
+          { uniqueId: "#a", share: 10 },
+          { uniqueId: "#b", share: 10 },
+        ],
+        sharesAfter: [{ uniqueId: "#b", share: 20 }],
+      },
+    ]);
+  });
+
+  it("covers added and dropped participants and items", () => {
+    const v2 = payload(
+      [
+        ["#a", 35.5],
+        ["#c", 0.1],
+      ],
+      [
+        ["1", "Pizza", 40],
+        ["3", "Dessert", -4.4],
+      ],
+      [
+        ["1", "#a", 40],
+        ["3", "#a", -4.5],
+        ["3", "#c", 0.1],
+      ]
+    );
+    const diff = diffFinalizations(v1, v2, "USD");
+    expect(diff.grandTotal).toEqual({ before: 60, after: 35.6 });
+    expect(diff.participants.map((p) => [p.uniqueId, p.delta])).toEqual([
+      ["#a", 5.5],
+      ["#b", -30],
+      ["#c", 0.1],
+    ]);
+    expect(diff.items.map((i) => [i.itemId, i.change])).toEqual([
+      ["1", "changed"],
+      ["2", "removed"],
+      ["3", "added"],
+    ]);
+  });
+});
@@ -0,0 +1,164 @@
+import { fromMinorUnits, toMinorUnits } from "../utils/currency.js";
+
+/**
+ * Differences between two finalize payloads of the same session: whose totals
+ * changed and which items moved between people. Pure (no DB access).
+ */
+
+export interface ParticipantChange {
+  uniqueId: string;
+  username: string;
+  /** 0 when the participant was not part of the previous finalize */
+  before: number;
+  /** 0 when the participant was dropped */
+  after: number;
+  delta: number;
+}
+
+export interface ItemShare {
+  uniqueId: string;
+  share: number;
+}
+
+export interface ItemChange {
+  itemId: string;
+  name: string;
+  change: "added" | "removed" | "changed";
+  totalBefore: number;
+  totalAfter: number;
+  sharesBefore: ItemShare[];
+  sharesAfter: ItemShare[];
+}
+
+export interface FinalizeDiff {
+  currency: string;
+  grandTotal: { before: number; after: number };
+  participants: ParticipantChange[];
+  items: ItemChange[];
+}
+
+interface Snapshot {
+  grandTotal: number;
+  people: Map<string, { username: string; amount: number }>;
+  items: Map<
+    string,
+    { name: string; total: number; shares: Map<string, number> }
+  >;
+}
+
+/** Read what the diff needs from a stored payload, amounts in minor units */
+function snapshot(payload: unknown, currency: string): Snapshot {
+  const p = payload as any;
+  const list = (v: unknown): any[] => (Array.isArray(v) ? v : []);
+  const minor = (v: unknown) => toMinorUnits(Number(v) || 0, currency);
+
+  const people = new Map<string, { username: string; amount: number }>();
+  const uniqueIdByParticipant = new Map<string, string>();
+  for (const row of list(p?.totals?.byParticipant)) {
+    const uniqueId = String(row?.uniqueId ?? "");
+    if (!uniqueId) continue;
+    uniqueIdByParticipant.set(String(row?.participantId), uniqueId);
+    people.set(uniqueId, {
+      username: String(row?.username ?? ""),
+      amount: minor(row?.amountOwed ?? row?.total),
+    });
+  }
+
+  const items = new Map<
+    string,
+    { name: string; total: number; shares: Map<string, number> }
+  >();
+  for (const item of list(p?.totals?.byItem)) {
+    items.set(String(item?.itemId), {
+      name: String(item?.name ?? ""),
+      total: minor(item?.total),
+      shares: new Map(),
+    });
+  }
+  for (const a of list(p?.allocations)) {
+    if (a?.itemId == null) continue;
+    const item = items.get(String(a.itemId));
+    const uniqueId = uniqueIdByParticipant.get(String(a.participantId));
+    if (!item || !uniqueId) continue;
+    item.shares.set(
+      uniqueId,
+      (item.shares.get(uniqueId) || 0) + minor(a.shareAmount)
+    );
+  }
+
+  return { grandTotal: minor(p?.totals?.grandTotal), people, items };
+}
+
+function sameShares(a: Map<string, number>, b: Map<string, number>) {
+  if (a.size !== b.size) return false;
+  for (const [k, v] of a) if (b.get(k) !== v) return false;
+  return true;
+}
+
+/**
+ * Compare two finalize payloads. Items are matched by itemId (stable for items
+ * stored on the session); an item whose id is only in one payload is added/removed.
+ */
+export function diffFinalizations(
+  previous: unknown,
+  next: unknown,
+  currency: string
+): FinalizeDiff {
+  const before = snapshot(previous, currency);
+  const after = snapshot(next, currency);
+  const money = (v: number) => fromMinorUnits(v, currency);
+  const shares = (m: Map<string, number> | undefined): ItemShare[] =>
+    [...(m ?? new Map<string, number>()).entries()]
+      .map(([uniqueId, v]) => ({ uniqueId, share: money(v) }))
+      .sort((x, y) => x.uniqueId.localeCompare(y.uniqueId));
+
+  const participants: ParticipantChange[] = [];
+  for (const uniqueId of new Set([
+    ...before.people.keys(),
+    ...after.people.keys(),
+  ])) {
+    const b = before.people.get(uniqueId);
+    const a = after.people.get(uniqueId);
+    const was = b?.amount ?? 0;
+    const is = a?.amount ?? 0;
+    if (was === is && !!a === !!b) continue;
+    participants.push({
+      uniqueId,
+      username: a?.username ?? b?.username ?? "",
+      before: money(was),
+      after: money(is),
+      delta: money(is - was),
+    });
+  }
+  participants.sort((x, y) => x.uniqueId.localeCompare(y.uniqueId));
+
+  const items: ItemChange[] = [];
+  for (const itemId of new Set([
+    ...before.items.keys(),
+    ...after.items.keys(),
+  ])) {
+    const b = before.items.get(itemId);
+    const a = after.items.get(itemId);
+    if (a && b && a.total === b.total && sameShares(a.shares, b.shares))
+      continue;
+    items.push({
+      itemId,
+      name: a?.name ?? b?.name ?? "",
+      change: !b ? "added" : !a ? "removed" : "changed",
+      totalBefore: money(b?.total ?? 0),
+      totalAfter: money(a?.total ?? 0),
+      sharesBefore: shares(b?.shares),
+      sharesAfter: shares(a?.shares),
+    });
+  }
+
+  return {
+    currency,
+    grandTotal: {
+      before: money(before.grandTotal),
+      after: money(after.grandTotal),
+    },
+    participants,
+    items,
+  };
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import ExcelJS from "exceljs";
+import {
+  ALLOCATION_COLUMNS,
+  allocationRows,
+  buildHistoryWorkbook,
+  participantSummary,
+  toCsv,
+} from "./historyExport.js";
+
+const entry = {
+  sessionId: 7,
+  sessionName: "Dinner, downtown",
+  finalizedAt: new Date("2025-10-31T23:30:00Z"),
+  currency: "USD",
+  payload: {
+    totals: {
+      byParticipant: [
+        { participantId: "p1", uniqueId: "#1111", username: "alice" },
+        { participantId: "p2", uniqueId: "#2222", username: "bob" },
+      ],
+      byItem: [{ itemId: "i1", name: "Ramen", kind: "item" }],
+      byCharge: [{ chargeId: "c1", name: "Tip", kind: "tip" }],
+    },
+    allocations: [
+      { itemId: "i1", participantId: "p1", shareAmount: 10.1 },
+      { itemId: "i1", participantId: "p2", shareAmount: 10.1 },
+      { chargeId: "c1", kind: "tip", participantId: "p1", shareAmount: 0.2 },
+    ],
+  },
+};
+
+describe("allocationRows", () => {
+  it("emits one row per allocation with item and participant names", () => {
+    const rows = allocationRows([entry]);
+    expect(rows).toHaveLength(3);
+    expect(rows[2]).toEqual({
+      sessionId: 7,
+      sessionName: "Dinner, downtown",
+      date: "2025-10-31",
+      item: "Tip",
+      kind: "tip",
+      participant: "#1111",
+      username: "alice",
+      share: 0.2,
+      currency: "USD",
+    });
+  });
+
+  it("tolerates payloads without allocations", () => {
+    expect(allocationRows([{ ...entry, payload: {} }])).toEqual([]);
+  });
+});
+
+describe("participantSummary", () => {
+  it("totals shares per participant and currency", () => {
+    expect(participantSummary(allocationRows([entry, entry]))).toEqual([
+      {
+        participant: "#1111",
+        username: "alice",
+        currency: "USD",
+        sessions: 1,
+        total: 20.6,
+      },
+      {
+        participant: "#2222",
+        username: "bob",
+        currency: "USD",
+        sessions: 1,
+        total: 20.2,
+      },
+    ]);
+  });
+});
+
+describe("toCsv", () => {
+  it("quotes separators and neutralizes formulas", () => {
+    const csv = toCsv(
+      [{ ...allocationRows([entry])[0]!, item: "=HYPERLINK()" }],
+      ALLOCATION_COLUMNS
+    );
+    expect(csv).toBe(
+      "Session ID,Session,Date,Item,Kind,Participant,Username,Share,Currency\r\n" +
+        `7,"Dinner, downtown",2025-10-31,'=HYPERLINK(),item,#1111,alice,10.1,USD\r\n`
+    );
+  });
+});
+
+describe("buildHistoryWorkbook", () => {
+  it("writes an allocations sheet and a participants sheet", async () => {
+    const rows = allocationRows([entry]);
+    const buffer = await buildHistoryWorkbook(rows, participantSummary(rows));
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(buffer as any);
+    expect(workbook.worksheets.map((w) => w.name)).toEqual([
+      "Allocations",
+      "Participants",
+    ]);
+    expect(workbook.getWorksheet("Allocations")!.rowCount).toBe(4);
+  });
+});
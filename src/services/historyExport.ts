@@ -0,0 +1,202 @@
+import ExcelJS from "exceljs";
+import { fromMinorUnits, toMinorUnits } from "../utils/currency.js";
+
+/**
+ * Spreadsheet export of session history: one row per stored allocation plus a
+ * per-participant summary. Row building is pure; the xlsx writer wraps exceljs.
+ */
+
+export interface ExportableEntry {
+  sessionId: number;
+  sessionName: string | null;
+  finalizedAt: Date;
+  currency: string;
+  /** The finalize response stored on SessionHistoryEntry */
+  payload: unknown;
+}
+
+export interface AllocationRow {
+  sessionId: number;
+  sessionName: string;
+  date: string;
+  item: string;
+  kind: string;
+  participant: string;
+  username: string;
+  share: number;
+  currency: string;
+}
+
+export interface ParticipantSummaryRow {
+  participant: string;
+  username: string;
+  currency: string;
+  sessions: number;
+  total: number;
+}
+
+export const ALLOCATION_COLUMNS: Array<{
+  key: keyof AllocationRow;
+  header: string;
+}> = [
+  { key: "sessionId", header: "Session ID" },
+  { key: "sessionName", header: "Session" },
+  { key: "date", header: "Date" },
+  { key: "item", header: "Item" },
+  { key: "kind", header: "Kind" },
+  { key: "participant", header: "Participant" },
+  { key: "username", header: "Username" },
+  { key: "share", header: "Share" },
+  { key: "currency", header: "Currency" },
+];
+
+export const SUMMARY_COLUMNS: Array<{
+  key: keyof ParticipantSummaryRow;
+  header: string;
+}> = [
+  { key: "participant", header: "Participant" },
+  { key: "username", header: "Username" },
+  { key: "currency", header: "Currency" },
+  { key: "sessions", header: "Sessions" },
+  { key: "total", header: "Total" },
+];
+
+/** One row per item/charge allocation in each entry's payload */
+export function allocationRows(entries: ExportableEntry[]): AllocationRow[] {
+  const rows: AllocationRow[] = [];
+  for (const e of entries) {
+    const payload = e.payload as any;
+    const list = (v: unknown): any[] => (Array.isArray(v) ? v : []);
+    const items = new Map(
+      list(payload?.totals?.byItem).map((i) => [String(i?.itemId), i])
+    );
+    const charges = new Map(
+      list(payload?.totals?.byCharge).map((c) => [String(c?.chargeId), c])
+    );
+    const people = new Map(
+      list(payload?.totals?.byParticipant).map((p) => [
+        String(p?.participantId),
+        p,
+      ])
+    );
+    const date = e.finalizedAt.toISOString().slice(0, 10);
+
+    for (const a of list(payload?.allocations)) {
+      const isCharge = a?.chargeId != null;
+      const source = isCharge
+        ? charges.get(String(a.chargeId))
+        : items.get(String(a?.itemId));
+      const person = people.get(String(a?.participantId));
+      rows.push({
+        sessionId: e.sessionId,
+        sessionName: e.sessionName ?? "",
+        date,
+        item: String(source?.name ?? (isCharge ? a.chargeId : a?.itemId) ?? ""),
+        kind: String(
+          (isCharge ? a.kind : source?.kind) || (isCharge ? "fee" : "item")
+        ),
+        participant: String(person?.uniqueId ?? a?.participantId ?? ""),
+        username: String(person?.username ?? ""),
+        share: Number(a?.shareAmount) || 0,
+        currency: e.currency,
+      });
+    }
+  }
+  return rows;
+}
+
+/** Totals per participant and currency; sums run in minor units */
+export function participantSummary(
+  rows: AllocationRow[]
+): ParticipantSummaryRow[] {
+  const totals = new Map<
+    string,
+    {
+      participant: string;
+      username: string;
+      currency: string;
+      sessions: Set<number>;
+      minor: number;
+    }
+  >();
+  for (const r of rows) {
+    const key = `${r.participant}:${r.currency}`;
+    const entry = totals.get(key) || {
+      participant: r.participant,
+      username: r.username,
+      currency: r.currency,
+      sessions: new Set<number>(),
+      minor: 0,
+    };
+    entry.sessions.add(r.sessionId);
+    entry.minor += toMinorUnits(r.share, r.currency);
+    totals.set(key, entry);
+  }
+  return [...totals.values()]
+    .map((t) => ({
+      participant: t.participant,
+      username: t.username,
+      currency: t.currency,
+      sessions: t.sessions.size,
+      total: fromMinorUnits(t.minor, t.currency),
+    }))
+    .sort(
+      (a, b) =>
+        a.participant.localeCompare(b.participant) ||
+        a.currency.localeCompare(b.currency)
+    );
+}
+
+/** Quote a CSV field; text starting with a formula character is prefixed with ' */
+function csvField(value: string | number): string {
+  if (typeof value === "number") return String(value);
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** RFC 4180 CSV with a header row and CRLF line endings */
+export function toCsv<T>(
+  rows: T[],
+  columns: Array<{ key: keyof T; header: string }>
+): string {
+  const lines = [columns.map((c) => csvField(c.header)).join(",")];
+  for (const row of rows) {
+    lines.push(
+      columns
+        .map((c) => csvField(row[c.key] as unknown as string | number))
+        .join(",")
+    );
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+/** Workbook with an "Allocations" sheet and a "Participants" summary sheet */
+export async function buildHistoryWorkbook(
+  rows: AllocationRow[],
+  summary: ParticipantSummaryRow[]
+): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+
+  const allocations = workbook.addWorksheet("Allocations");
+  allocations.columns = ALLOCATION_COLUMNS.map((c) => ({
+    header: c.header,
+    key: c.key,
+    width: c.key === "sessionName" || c.key === "item" ? 30 : 14,
+  }));
+  allocations.addRows(rows);
+
+  const participants = workbook.addWorksheet("Participants");
+  participants.columns = SUMMARY_COLUMNS.map((c) => ({
+    header: c.header,
+    key: c.key,
+    width: 16,
+  }));
+  participants.addRows(summary);
+
+  for (const sheet of [allocations, participants]) {
+    sheet.getRow(1).font = { bold: true };
+    sheet.views = [{ state: "frozen", ySplit: 1 }];
+  }
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildHistorySearchText,
+  decodeHistoryCursor,
+  encodeHistoryCursor,
+  historyWhere,
+  parseHistoryFilters,
+} from "./historyQuery.js";
+
+describe("buildHistorySearchText", () => {
+  it("joins the session name and item names, lower-cased", () => {
+    const payload = {
+      totals: {
+        byItem: [{ name: "Ramen  Bowl" }, { name: "Gyoza" }, { total: 3 }],
+      },
+    };
+    expect(buildHistorySearchText("Tokyo Dinner", payload)).toBe(
+      "tokyo dinner ramen bowl gyoza"
+    );
+    expect(buildHistorySearchText(null, {})).toBe("");
+  });
+});
+
+describe("history cursor", () => {
+  it("round-trips and rejects garbage", () => {
+    const cursor = { finalizedAt: new Date("2025-10-31T23:30:00Z"), id: 42 };
+    expect(decodeHistoryCursor(encodeHistoryCursor(cursor))).toEqual(cursor);
+    expect(decodeHistoryCursor("not-a-cursor")).toBeNull();
+  });
+});
+
+describe("parseHistoryFilters", () => {
+  it("normalizes valid filters", () => {
+    const result = parseHistoryFilters({
+      currency: "jpy",
+      from: "2025-10-01",
+      to: "2025-10-31",
+      groupId: "3",
+      role: "created",
+      q: " Ramen  GYOZA ",
+    });
+    expect(result).toEqual({
+      filters: {
+        currency: "JPY",
+        from: new Date("2025-10-01T00:00:00.000Z"),
+        to: new Date("2025-10-31T23:59:59.999Z"),
+        groupId: 3,
+        role: "created",
+        terms: ["ramen", "gyoza"],
+      },
+    });
+  });
+
+  it("rejects invalid values", () => {
+    expect(parseHistoryFilters({ currency: "yen!" })).toHaveProperty("error");
+    expect(parseHistoryFilters({ from: "nope" })).toHaveProperty("error");
+    expect(
+      parseHistoryFilters({ from: "2025-11-01", to: "2025-10-01" })
+    ).toHaveProperty("error");
+    expect(parseHistoryFilters({ role: "owner" })).toHaveProperty("error");
+    expect(parseHistoryFilters({ groupId: "x" })).toHaveProperty("error");
+  });
+});
+
+describe("historyWhere", () => {
+  const viewer = { id: 1, uniqueId: "#1111" };
+
+  it("scopes participated entries to other creators", () => {
+    expect(historyWhere(viewer, { role: "participated" })).toEqual({
+      AND: [
+        {
+          participantUniqueIds: { has: "#1111" },
+          creatorId: { not: 1 },
+        },
+      ],
+    });
+  });
+
+  it("leaves out canceled sessions only when asked", () => {
+    const canceled = { session: { status: { not: "CANCELED" } } };
+    expect(historyWhere(viewer, {}).AND).not.toContainEqual(canceled);
+    expect(
+      historyWhere(viewer, { excludeCanceled: true, groupId: 3 }).AND
+    ).toEqual(expect.arrayContaining([{ session: { groupId: 3 } }, canceled]));
+  });
+
+  it("continues strictly after the cursor", () => {
+    const at = new Date("2025-10-31T23:30:00Z");
+    const where = historyWhere(
+      viewer,
+      { terms: ["ramen"] },
+      { finalizedAt: at, id: 42 }
+    );
+    expect(where.AND).toContainEqual({ searchText: { contains: "ramen" } });
+    expect(where.AND).toContainEqual({
+      OR: [{ finalizedAt: { lt: at } }, { finalizedAt: at, id: { lt: 42 } }],
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import type { Prisma } from "@prisma/client";
+import { parseDateParam } from "../utils/validation.js";
+
+/**
+ * Query building for session history: filters, free-text search and keyset
+ * pagination on (finalizedAt, id). Shared by every endpoint that lists history
+ * so they all accept the same query parameters. Pure (no DB access).
+ */
+
+export type HistoryRole = "created" | "participated";
+
+export interface HistoryFilters {
+  currency?: string;
+  from?: Date;
+  to?: Date;
+  groupId?: number;
+  /** created: sessions you created; participated: sessions someone else created */
+  role?: HistoryRole;
+  /** Lower-cased search terms; every term must match */
+  terms?: string[];
+  /** Leave out canceled sessions (totals: stats and export); not a query parameter */
+  excludeCanceled?: boolean;
+}
+
+export interface HistoryCursor {
+  finalizedAt: Date;
+  id: number;
+}
+
+export interface HistoryViewer {
+  id: number;
+  uniqueId: string;
+}
+
+/** Newest first; id breaks ties between entries finalized in the same millisecond */
+export const HISTORY_ORDER = [
+  { finalizedAt: "desc" },
+  { id: "desc" },
+] satisfies Prisma.SessionHistoryEntryOrderByWithRelationInput[];
+
+/**
+ * Text indexed for history search: the session name plus every item name in the
+ * finalize payload, lower-cased and whitespace-collapsed.
+ */
+export function buildHistorySearchText(
+  sessionName: string | null | undefined,
+  payload: unknown
+): string {
+  const byItem: unknown = (payload as any)?.totals?.byItem;
+  const names = Array.isArray(byItem)
+    ? byItem.map((item: any) =>
+        typeof item?.name === "string" ? item.name : ""
+      )
+    : [];
+  return [sessionName ?? "", ...names]
+    .join(" ")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function encodeHistoryCursor(cursor: HistoryCursor): string {
+  return Buffer.from(
+    `${cursor.finalizedAt.toISOString()}|${cursor.id}`
+  ).toString("base64url");
+}
+
+export function decodeHistoryCursor(raw: string): HistoryCursor | null {
+  const [at, id] = Buffer.from(raw, "base64url").toString("utf8").split("|");
+  const finalizedAt = new Date(at ?? "");
+  const entryId = Number(id);
+  if (Number.isNaN(finalizedAt.getTime()) || !Number.isInteger(entryId))
+    return null;
+  return { finalizedAt, id: entryId };
+}
+
+/** Validate history filter query parameters (currency, from, to, groupId, role, q) */
+export function parseHistoryFilters(
+  query: Record<string, unknown>
+): { filters: HistoryFilters } | { error: string } {
+  const filters: HistoryFilters = {};
+
+  if (query.currency != null && query.currency !== "") {
+    const currency = String(query.currency).trim().toUpperCase();
+    if (!/^[A-Z]{3}$/.test(currency) && currency !== "UNKNOWN")
+      return { error: "currency must be an ISO 4217 code" };
+    filters.currency = currency;
+  }
+
+  const from = parseDateParam(query.from);
+  const to = parseDateParam(query.to, true);
+  if (from === null || to === null)
+    return { error: "from/to must be valid dates" };
+  if (from && to && from > to) return { error: "from must be before to" };
+  if (from) filters.from = from;
+  if (to) filters.to = to;
+
+  if (query.groupId != null && query.groupId !== "") {
+    const groupId = Number(query.groupId);
+    if (!Number.isInteger(groupId)) return { error: "Invalid groupId" };
+    filters.groupId = groupId;
+  }
+
+  if (query.role != null && query.role !== "") {
+    const role = String(query.role);
+    if (role !== "created" && role !== "participated")
+      return { error: "role must be created or participated" };
+    filters.role = role;
+  }
+
+  const q = typeof query.q === "string" ? query.q.trim().toLowerCase() : "";
+  if (q) filters.terms = q.split(/\s+/).slice(0, 10);
+
+  return { filters };
+}
+
+/** Where clause for the viewer's history entries matching `filters`, after `cursor` */
+export function historyWhere(
+  viewer: HistoryViewer,
+  filters: HistoryFilters,
+  cursor?: HistoryCursor
+): Prisma.SessionHistoryEntryWhereInput {
+  const and: Prisma.SessionHistoryEntryWhereInput[] = [];
+
+  if (filters.role === "created") {
+    and.push({ creatorId: viewer.id });
+  } else if (filters.role === "participated") {
+    and.push({
+      participantUniqueIds: { has: viewer.uniqueId },
+      creatorId: { not: viewer.id },
+    });
+  } else {
+    and.push({
+      OR: [
+        { creatorId: viewer.id },
+        { participantUniqueIds: { has: viewer.uniqueId } },
+      ],
+    });
+  }
+
+  if (filters.currency) and.push({ currency: filters.currency });
+  if (filters.from) and.push({ finalizedAt: { gte: filters.from } });
+  if (filters.to) and.push({ finalizedAt: { lte: filters.to } });
+  if (filters.groupId !== undefined)
+    and.push({ session: { groupId: filters.groupId } });
+  if (filters.excludeCanceled)
+    and.push({ session: { status: { not: "CANCELED" } } });
+  for (const term of filters.terms ?? []) {
+    and.push({ searchText: { contains: term } });
+  }
+
+  if (cursor) {
+    and.push({
+      OR: [
+        { finalizedAt: { lt: cursor.finalizedAt } },
+        { finalizedAt: cursor.finalizedAt, id: { lt: cursor.id } },
+      ],
+    });
+  }
+
+  return { AND: and };
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildSessionDebts,
+  netBalancesFor,
+  netPositions,
+  settlementLines,
+} from "./ledger.js";
+import { planSettlements } from "./settlement.js";
+
+describe("buildSessionDebts", () => {
+  it("makes every participant owe the single payer their share", () => {
+    const debts = buildSessionDebts(
+      [
+        { userId: 1, amount: 40 },
+        { userId: 2, amount: 35.5 },
+        { userId: 3, amount: 24.5 },
+      ],
+      [{ userId: 1, amount: 100 }],
+      "USD"
+    );
+    expect(debts).toEqual([
+      { debtorId: 2, creditorId: 1, amount: 35.5 },
+      { debtorId: 3, creditorId: 1, amount: 24.5 },
+    ]);
+  });
+
+  it("credits a payer who did not take part for the whole bill", () => {
+    const debts = buildSessionDebts(
+      [
+        { userId: 2, amount: 500 },
+        { userId: 3, amount: 500 },
+      ],
+      [{ userId: 9, amount: 1000 }],
+      "JPY"
+    );
+    expect(debts).toEqual([
+      { debtorId: 2, creditorId: 9, amount: 500 },
+      { debtorId: 3, creditorId: 9, amount: 500 },
+    ]);
+  });
+
+  it("matches several payers largest first", () => {
+    const debts = buildSessionDebts(
+      [
+        { userId: 1, amount: 30 },
+        { userId: 2, amount: 30 },
+        { userId: 3, amount: 40 },
+      ],
+      [
+        { userId: 1, amount: 70 },
+        { userId: 2, amount: 30 },
+      ],
+      "EUR"
+    );
+    expect(debts).toEqual([{ debtorId: 3, creditorId: 1, amount: 40 }]);
+  });
+
+  it("leaves no debts or transfers when every payer covered their own share", () => {
+    const shares = [
+      { userId: 1, amount: 42.5 },
+      { userId: 2, amount: 57.5 },
+    ];
+    const debts = buildSessionDebts(shares, shares, "USD");
+    expect(debts).toEqual([]);
+    const lines = debts.map((d) => ({ ...d, currency: "USD" }));
+    expect(planSettlements(netPositions(lines))).toEqual([]);
+  });
+
+  it("keeps cents exact", () => {
+    const debts = buildSessionDebts(
+      [
+        { userId: 1, amount: 33.34 },
+        { userId: 2, amount: 33.33 },
+        { userId: 3, amount: 33.33 },
+      ],
+      [{ userId: 1, amount: 100 }],
+      "USD"
+    );
+    expect(debts.reduce((s, d) => s + d.amount * 100, 0)).toBeCloseTo(6666);
+  });
+});
+
+describe("netBalancesFor", () => {
+  it("nets debts in both directions per counterparty and currency", () => {
+    const balances = netBalancesFor(1, [
+      { debtorId: 2, creditorId: 1, amount: 30, currency: "USD" },
+      { debtorId: 1, creditorId: 2, amount: 10.25, currency: "USD" },
+      { debtorId: 1, creditorId: 3, amount: 500, currency: "JPY" },
+      { debtorId: 2, creditorId: 1, amount: 700, currency: "JPY" },
+    ]);
+    expect(balances).toEqual([
+      { userId: 2, currency: "JPY", net: 700 },
+      { userId: 2, currency: "USD", net: 19.75 },
+      { userId: 3, currency: "JPY", net: -500 },
+    ]);
+  });
+
+  it("drops settled pairs and lines not involving the user", () => {
+    const balances = netBalancesFor(1, [
+      { debtorId: 2, creditorId: 1, amount: 5, currency: "USD" },
+      { debtorId: 1, creditorId: 2, amount: 5, currency: "USD" },
+      { debtorId: 3, creditorId: 4, amount: 8, currency: "USD" },
+    ]);
+    expect(balances).toEqual([]);
+  });
+});
+
+describe("settlementLines", () => {
+  it("cancels the payer's debt once a payment is confirmed", () => {
+    const lines = [
+      { debtorId: 2, creditorId: 1, amount: 2300, currency: "JPY" },
+      ...settlementLines([
+        { payerId: 2, payeeId: 1, amount: 2000, currency: "JPY" },
+      ]),
+    ];
+    expect(netBalancesFor(1, lines)).toEqual([
+      { userId: 2, currency: "JPY", net: 300 },
+    ]);
+    expect(netBalancesFor(2, lines)).toEqual([
+      { userId: 1, currency: "JPY", net: -300 },
+    ]);
+  });
+});
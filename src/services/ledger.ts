@@ -0,0 +1,172 @@
+import { fromMinorUnits, toMinorUnits } from "../utils/currency.js";
+import { matchTransfers, type NetPosition } from "./settlement.js";
+
+/**
+ * Debt ledger math. Finalize turns "who owes what" and "who paid what" into
+ * pairwise debts; balances are the per-counterparty sums of those debts.
+ * Pure (no DB access) so it can be shared by sessions, balances and settlements.
+ */
+
+export interface PartyAmount {
+  userId: number;
+  amount: number;
+}
+
+export interface Debt {
+  debtorId: number;
+  creditorId: number;
+  amount: number;
+}
+
+export interface LedgerLine {
+  debtorId: number;
+  creditorId: number;
+  amount: number;
+  currency: string;
+}
+
+export interface CounterpartyBalance {
+  userId: number;
+  currency: string;
+  /** > 0: the counterparty owes you; < 0: you owe them */
+  net: number;
+}
+
+/**
+ * Pair people who owe more than they paid with people who paid more than they owe
+ * (see matchTransfers); runs in integer minor units so the debts add up exactly.
+ */
+export function buildSessionDebts(
+  owed: PartyAmount[],
+  paid: PartyAmount[],
+  currency: string
+): Debt[] {
+  // > 0 = paid more than their share
+  const net = new Map<number, number>();
+  for (const p of paid) {
+    net.set(
+      p.userId,
+      (net.get(p.userId) || 0) + toMinorUnits(p.amount, currency)
+    );
+  }
+  for (const o of owed) {
+    net.set(
+      o.userId,
+      (net.get(o.userId) || 0) - toMinorUnits(o.amount, currency)
+    );
+  }
+  return matchTransfers(net).map((t) => ({
+    debtorId: t.fromUserId,
+    creditorId: t.toUserId,
+    amount: fromMinorUnits(t.amount, currency),
+  }));
+}
+
+/**
+ * A confirmed payment from payer to payee cancels that much of the payer's debt,
+ * which in ledger terms is the payee owing the payer the same amount.
+ */
+export function settlementLines(
+  settlements: Array<{
+    payerId: number;
+    payeeId: number;
+    amount: number;
+    currency: string;
+  }>
+): LedgerLine[] {
+  return settlements.map((s) => ({
+    debtorId: s.payeeId,
+    creditorId: s.payerId,
+    amount: s.amount,
+    currency: s.currency,
+  }));
+}
+
+/** Everyone's overall position across ledger lines, one row per user and currency */
+export function netPositions(lines: LedgerLine[]): NetPosition[] {
+  const minor = new Map<
+    string,
+    { userId: number; currency: string; v: number }
+  >();
+  const add = (userId: number, currency: string, v: number) => {
+    const key = `${userId}:${currency}`;
+    const entry = minor.get(key) || { userId, currency, v: 0 };
+    entry.v += v;
+    minor.set(key, entry);
+  };
+  for (const line of lines) {
+    const amount = toMinorUnits(line.amount, line.currency);
+    add(line.creditorId, line.currency, amount);
+    add(line.debtorId, line.currency, -amount);
+  }
+  return [...minor.values()]
+    .filter((e) => e.v !== 0)
+    .map((e) => ({
+      userId: e.userId,
+      currency: e.currency,
+      net: fromMinorUnits(e.v, e.currency),
+    }))
+    .sort(
+      (a, b) => a.currency.localeCompare(b.currency) || a.userId - b.userId
+    );
+}
+
+/**
+ * Net balance between `userId` and everyone they share ledger lines with,
+ * one row per counterparty and currency. Settled pairs (net 0) are dropped.
+ */
+export function netBalancesFor(
+  userId: number,
+  lines: LedgerLine[]
+): CounterpartyBalance[] {
+  const minor = new Map<string, CounterpartyBalance & { minor: number }>();
+  for (const line of lines) {
+    let other: number;
+    let sign: number;
+    if (line.creditorId === userId && line.debtorId !== userId) {
+      other = line.debtorId;
+      sign = 1;
+    } else if (line.debtorId === userId && line.creditorId !== userId) {
+      other = line.creditorId;
+      sign = -1;
+    } else {
+      continue;
+    }
+    const key = `${other}:${line.currency}`;
+    const entry = minor.get(key) || {
+      userId: other,
+      currency: line.currency,
+      net: 0,
+      minor: 0,
+    };
+    entry.minor += sign * toMinorUnits(line.amount, line.currency);
+    minor.set(key, entry);
+  }
+  return [...minor.values()]
+    .filter((e) => e.minor !== 0)
+    .map((e) => ({
+      userId: e.userId,
+      currency: e.currency,
+      net: fromMinorUnits(e.minor, e.currency),
+    }))
+    .sort(
+      (a, b) => a.userId - b.userId || a.currency.localeCompare(b.currency)
+    );
+}
+
+/**
+ * What each participant owed, read from a stored finalize payload. Works for
+ * every payload version: early ones only carry `total` per participant.
+ */
+export function payloadShares(
+  payload: unknown
+): Array<{ uniqueId: string; amount: number }> {
+  const byParticipant: unknown = (payload as any)?.totals?.byParticipant;
+  if (!Array.isArray(byParticipant)) return [];
+  return byParticipant
+    .map((p: any) => ({
+      uniqueId: String(p?.uniqueId ?? ""),
+      amount: Number(p?.amountOwed ?? p?.total) || 0,
+    }))
+    .filter((p) => p.uniqueId && p.amount > 0);
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import {
+  isReceiptImageKey,
+  receiptImageKey,
+  storedReceiptImages,
+} from "./receiptImages.js";
+
+describe("receiptImageKey", () => {
+  const at = new Date("2025-11-09T10:00:00Z");
+
+  it("places photos under receipts/<sessionId>/ with page and an extension from the type", () => {
+    expect(receiptImageKey(42, "image/jpeg", 1, at)).toBe(
+      `receipts/42/${at.getTime()}-1.jpg`
+    );
+    expect(receiptImageKey(42, "IMAGE/PNG", 2, at)).toBe(
+      `receipts/42/${at.getTime()}-2.png`
+    );
+  });
+
+  it("keeps PDFs and skips other types", () => {
+    expect(receiptImageKey(42, "application/pdf", 1, at)).toBe(
+      `receipts/42/${at.getTime()}-1.pdf`
+    );
+    expect(receiptImageKey(42, "text/plain", 1, at)).toBeNull();
+  });
+
+  it("falls back to receiptImageUrl for sessions without stored keys", () => {
+    expect(
+      storedReceiptImages({
+        receiptImageUrl: "receipts/42/1.jpg",
+        receiptImageKeys: [],
+      })
+    ).toEqual(["receipts/42/1.jpg"]);
+    expect(
+      storedReceiptImages({
+        receiptImageUrl: "receipts/42/1-1.jpg",
+        receiptImageKeys: ["receipts/42/1-1.jpg", "receipts/42/1-2.jpg"],
+      })
+    ).toHaveLength(2);
+  });
+
+  it("tells stored keys from legacy absolute URLs", () => {
+    expect(isReceiptImageKey("receipts/42/1.jpg")).toBe(true);
+    expect(isReceiptImageKey("https://cdn.example.com/r.jpg")).toBe(false);
+  });
+});
@@ -0,0 +1,122 @@
+import {
+  deleteObject,
+  getSignedObjectUrl,
+  hasR2Bucket,
+  uploadPrivateObject,
+} from "../config/r2.js";
+
+/**
+ * Original receipt photos, kept private in R2 under receipts/<sessionId>/.
+ * Session.receiptImageKeys stores the object keys in page order (receiptImageUrl
+ * the first one); clients get short-lived signed URLs instead of permanent links.
+ */
+
+const RECEIPT_URL_TTL_SECONDS = Number(
+  process.env.RECEIPT_URL_TTL_SECONDS || 15 * 60
+); // default 15 minutes
+
+const EXT_BY_MIME: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/jpg": ".jpg",
+  "image/png": ".png",
+  "image/webp": ".webp",
+  "image/heic": ".heic",
+  "image/heif": ".heif",
+  "application/pdf": ".pdf",
+};
+
+/** Object key for page `page` (1-based) of a new scan; null for a type we don't store */
+export function receiptImageKey(
+  sessionId: number,
+  mimeType: string,
+  page = 1,
+  now = new Date()
+): string | null {
+  const ext = EXT_BY_MIME[mimeType.toLowerCase()];
+  if (!ext) return null;
+  return `receipts/${sessionId}/${now.getTime()}-${page}${ext}`;
+}
+
+/** True for values written by storeReceiptImage (older rows may hold absolute URLs) */
+export function isReceiptImageKey(value: string): boolean {
+  return value.startsWith("receipts/");
+}
+
+/** Keys of a session's photos in page order (rows from before multi-photo scans only have receiptImageUrl) */
+export function storedReceiptImages(session: {
+  receiptImageUrl: string | null;
+  receiptImageKeys: string[];
+}): string[] {
+  if (session.receiptImageKeys.length) return session.receiptImageKeys;
+  return session.receiptImageUrl ? [session.receiptImageUrl] : [];
+}
+
+/**
+ * Upload the scanned photos; returns their keys in order, or null when R2 is
+ * not configured or a type is unsupported. If an upload fails, the photos
+ * already uploaded are removed and the error propagates to the caller.
+ */
+export async function storeReceiptImages(
+  sessionId: number,
+  files: Array<{ mimeType: string; buffer: Buffer }>
+): Promise<string[] | null> {
+  if (!hasR2Bucket()) return null;
+  const now = new Date();
+  const keys = files.map((f, idx) =>
+    receiptImageKey(sessionId, f.mimeType, idx + 1, now)
+  );
+  if (keys.some((k) => !k)) return null;
+  const stored: string[] = [];
+  try {
+    for (const [idx, file] of files.entries()) {
+      await uploadPrivateObject(
+        keys[idx]!,
+        file.buffer,
+        file.mimeType.toLowerCase()
+      );
+      stored.push(keys[idx]!);
+    }
+  } catch (err) {
+    await removeReceiptImages(stored);
+    throw err;
+  }
+  return stored;
+}
+
+/** Best-effort removal of replaced receipt photos */
+export async function removeReceiptImages(stored: string[]) {
+  if (!hasR2Bucket()) return;
+  for (const key of stored) {
+    if (!isReceiptImageKey(key)) continue;
+    try {
+      await deleteObject(key);
+    } catch (err) {
+      console.error("removeReceiptImages error:", err);
+    }
+  }
+}
+
+/** Viewable URL for Session.receiptImageUrl; expiresAt is null for plain URLs */
+export async function receiptImageLink(
+  stored: string | null
+): Promise<{ url: string; expiresAt: Date | null } | null> {
+  if (!stored) return null;
+  if (!isReceiptImageKey(stored)) return { url: stored, expiresAt: null };
+  if (!hasR2Bucket()) return null;
+  const url = await getSignedObjectUrl(stored, RECEIPT_URL_TTL_SECONDS);
+  return {
+    url,
+    expiresAt: new Date(Date.now() + RECEIPT_URL_TTL_SECONDS * 1000),
+  };
+}
+
+/** Viewable URLs for every stored photo, with their 1-based page */
+export async function receiptImageLinks(stored: string[]) {
+  const links: Array<{ page: number; url: string; expiresAt: Date | null }> =
+    [];
+  for (const [idx, key] of stored.entries()) {
+    const link = await receiptImageLink(key);
+    if (link) links.push({ page: idx + 1, ...link });
+  }
+  return links;
+}
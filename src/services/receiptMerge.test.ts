@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import type { ParsedReceiptItem } from "./receiptParser.js";
+import { mergeReceiptPages, overlapLength } from "./receiptMerge.js";
+
+function line(
+  id: string,
+  name: string,
+  totalPrice: number,
+  extra: Partial<ParsedReceiptItem> = {}
+): ParsedReceiptItem {
+  return { id, name, unitPrice: totalPrice, quantity: 1, totalPrice, ...extra };
+}
+
+function page(items: ParsedReceiptItem[], currency = "EUR") {
+  return {
+    items,
+    summary: {
+      grandTotal: items.reduce((s, i) => s + i.totalPrice, 0),
+      currency,
+    },
+  };
+}
+
+describe("overlapLength", () => {
+  it("finds the longest tail/head match", () => {
+    expect(overlapLength(["a", "b", "c"], ["b", "c", "d"])).toBe(2);
+    expect(overlapLength(["a", "b"], ["c"])).toBe(0);
+    expect(overlapLength(["a", "a"], ["a", "a", "a"])).toBe(2);
+  });
+});
+
+describe("mergeReceiptPages", () => {
+  it("keeps a single page as-is apart from the page number", () => {
+    const merged = mergeReceiptPages([
+      page([line("1", "Milk", 1.2), line("2", "Bread", 2.5)]),
+    ]);
+    expect(merged.items.map((i) => [i.id, i.page])).toEqual([
+      ["1", 1],
+      ["2", 1],
+    ]);
+    expect(merged.summary).toEqual({ grandTotal: 3.7, currency: "EUR" });
+    expect(merged.duplicatesRemoved).toBe(0);
+  });
+
+  it("drops lines repeated where photos overlap, ignoring spacing in names", () => {
+    const merged = mergeReceiptPages([
+      page([line("1", "Milk 1L", 1.2), line("2", "Bread", 2.5)]),
+      page([
+        line("1", "Milk 1 L", 1.2),
+        line("2", "bread", 2.5),
+        line("3", "Eggs", 3.1),
+      ]),
+      page([line("1", "Eggs", 3.1), line("2", "Eggs", 3.1)]),
+    ]);
+    expect(merged.items.map((i) => [i.id, i.name, i.page])).toEqual([
+      ["1-1", "Milk 1L", 1],
+      ["1-2", "Bread", 1],
+      ["2-3", "Eggs", 2],
+      ["3-2", "Eggs", 3],
+    ]);
+    expect(merged.duplicatesRemoved).toBe(3);
+    expect(merged.summary.grandTotal).toBe(9.9);
+  });
+
+  it("keeps identical lines that are not at a page boundary", () => {
+    const merged = mergeReceiptPages([
+      page([line("1", "Beer", 5), line("2", "Chips", 2)]),
+      page([line("1", "Beer", 5), line("2", "Fries", 4)]),
+    ]);
+    expect(merged.items.map((i) => i.name)).toEqual([
+      "Beer",
+      "Chips",
+      "Beer",
+      "Fries",
+    ]);
+  });
+
+  it("re-points discounts at the kept copy of an overlapped item", () => {
+    const merged = mergeReceiptPages([
+      page([line("1", "Cheese", 6)], "UNKNOWN"),
+      page([
+        line("1", "Cheese", 6),
+        line("2", "Cheese promo", -1, { kind: "discount", appliesTo: "1" }),
+      ]),
+    ]);
+    expect(merged.items.map((i) => [i.id, i.appliesTo])).toEqual([
+      ["1-1", undefined],
+      ["2-2", "1-1"],
+    ]);
+    expect(merged.summary).toEqual({ grandTotal: 5, currency: "EUR" });
+  });
+});
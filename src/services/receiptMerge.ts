@@ -0,0 +1,94 @@
+import { roundMoney } from "../utils/currency.js";
+import type { ParsedReceiptItem } from "./receiptParser.js";
+
+/**
+ * Merging of a receipt photographed in several pieces. Photos arrive in order
+ * and usually overlap: lines at the bottom of one photo reappear at the top of
+ * the next. Only that overlap is dropped, so identical lines elsewhere on the
+ * receipt (two separate beers) are kept. Pure (no DB access).
+ */
+
+export interface ReceiptPage {
+  items: ParsedReceiptItem[];
+  summary: { grandTotal: number; currency: string };
+}
+
+export interface MergedReceipt {
+  /** Items of every page with `page` set (1-based); ids are prefixed with the page when there are several */
+  items: ParsedReceiptItem[];
+  summary: { grandTotal: number; currency: string };
+  duplicatesRemoved: number;
+}
+
+/** Comparison key of a line: name without spacing/punctuation, quantity and total */
+function lineKey(item: ParsedReceiptItem): string {
+  const name = item.name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "");
+  return `${name}|${item.kind ?? "item"}|${item.quantity}|${item.totalPrice}`;
+}
+
+/** Longest k such that the last k lines of `prev` equal the first k of `next` */
+export function overlapLength(prev: string[], next: string[]): number {
+  for (let k = Math.min(prev.length, next.length); k > 0; k--) {
+    let same = true;
+    for (let i = 0; i < k; i++) {
+      if (prev[prev.length - k + i] !== next[i]) {
+        same = false;
+        break;
+      }
+    }
+    if (same) return k;
+  }
+  return 0;
+}
+
+/**
+ * One item list and summary for an ordered set of parsed photos. Discounts keep
+ * pointing at their item; a discount whose item was dropped as overlap points
+ * at the copy that was kept.
+ */
+export function mergeReceiptPages(pages: ReceiptPage[]): MergedReceipt {
+  const currency =
+    pages.map((p) => p.summary.currency).find((c) => c && c !== "UNKNOWN") ??
+    "UNKNOWN";
+  const multi = pages.length > 1;
+
+  const items: ParsedReceiptItem[] = [];
+  let duplicatesRemoved = 0;
+  let prevKeys: string[] = [];
+  let prevIds: string[] = [];
+
+  for (const [idx, page] of pages.entries()) {
+    const pageNo = idx + 1;
+    const keys = page.items.map(lineKey);
+    const skip = idx === 0 ? 0 : overlapLength(prevKeys, keys);
+    duplicatesRemoved += skip;
+
+    // Parser id -> merged id; overlapped lines map to the copy kept from the previous page
+    const idMap = new Map<string, string>();
+    const newId = (id: string) => (multi ? `${pageNo}-${id}` : id);
+    page.items.forEach((it, i) => {
+      const kept = i < skip ? prevIds[prevIds.length - skip + i] : undefined;
+      idMap.set(it.id, kept ?? newId(it.id));
+    });
+
+    for (const it of page.items.slice(skip)) {
+      items.push({
+        ...it,
+        id: newId(it.id),
+        ...(it.appliesTo != null
+          ? { appliesTo: idMap.get(it.appliesTo) ?? newId(it.appliesTo) }
+          : {}),
+        page: pageNo,
+      });
+    }
+
+    prevKeys = keys;
+    prevIds = page.items.map((it) => idMap.get(it.id)!);
+  }
+
+  const grandTotal = roundMoney(
+    items.reduce((s, i) => s + (Number(i.totalPrice) || 0), 0),
+    currency
+  );
+  return { items, summary: { grandTotal, currency }, duplicatesRemoved };
+}
@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const reply = (items: unknown[]) => ({
+  candidates: [
+    {
+      content: {
+        parts: [
+          {
+            text: JSON.stringify({
+              items,
+              summary: { grandTotal: 0, currency: "EUR" },
+            }),
+          },
+        ],
+      },
+    },
+  ],
+});
+
+const pages = {
+  cGFnZTE: reply([{ id: "1", name: "Soup", unitPrice: 6, quantity: 1 }]),
+  cGFnZTI: reply([{ id: "1", name: "Steak", unitPrice: 24, quantity: 1 }]),
+};
+
+/** Gemini stub answering per photo; photos missing from `ok` get HTTP 500 */
+function stubGemini(ok: Array<keyof typeof pages>) {
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (_url: string, init: { body: string }) => {
+      const photo = ok.find((p) => init.body.includes(p));
+      return photo
+        ? new Response(JSON.stringify(pages[photo]), { status: 200 })
+        : new Response("{}", { status: 500 });
+    })
+  );
+}
+
+async function scan() {
+  const { parseReceipt } = await import("./receiptParser.js");
+  return parseReceipt({
+    language: "en-US",
+    sessionName: "Dinner",
+    images: Object.keys(pages).map((imageBase64) => ({
+      mimeType: "image/jpeg",
+      imageBase64,
+    })),
+  });
+}
+
+describe("parseReceipt with several photos", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.stubEnv("GEMINI_API_KEY", "AIza-test-key-000000");
+  });
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it("merges the pages when every photo is read", async () => {
+    stubGemini(["cGFnZTE", "cGFnZTI"]);
+    const result = await scan();
+    expect(result.source).toBe("gemini");
+    expect(result.items.map((i) => [i.name, i.page])).toEqual([
+      ["Soup", 1],
+      ["Steak", 2],
+    ]);
+    expect(result.summary).toEqual({ grandTotal: 30, currency: "EUR" });
+  });
+
+  it("fails instead of mixing in mock lines when one photo cannot be read", async () => {
+    stubGemini(["cGFnZTE"]);
+    await expect(scan()).rejects.toMatchObject({
+      name: "ReceiptParseError",
+      statusCode: 502,
+      pages: [2],
+    });
+  });
+});
@@ -1,5 +1,7 @@
 import type { Readable } from "node:stream";
 import { GoogleGenerativeAI } from "@google/generative-ai";
+import { roundMoney } from "../utils/currency.js";
+import { mergeReceiptPages } from "./receiptMerge.js";
 
 /** Shape returned to the route */
 export interface ParsedReceiptItem {
@@ -9,6 +11,9 @@ export interface ParsedReceiptItem {
   quantity: number;
   totalPrice: number; // unitPrice * quantity (model can supply; we'll verify)
   kind?: string | null; // e.g. fee/tip/discount
+  appliesTo?: string | null; // discount only: id of the discounted line (absent = whole bill)
+  percent?: number | null; // discount only: e.g. 10 for "10% off"
+  page?: number; // 1-based photo the line was read from
 }
 
 export interface ParseResult {
@@ -33,11 +38,29 @@ export interface ParseResult {
     | undefined;
 }
 
+export interface ReceiptImage {
+  mimeType: string;
+  imageBase64: string; // no data: prefix, raw base64
+}
+
 export interface ParseOptions {
   language: string; // BCP-47 like ru-RU, en-US
   sessionName: string;
-  mimeType: string;
-  imageBase64: string; // no data: prefix, raw base64
+  images: ReceiptImage[]; // photos of one receipt in order (a PDF may hold several pages itself)
+}
+
+/** Some photos of a multi-photo receipt could not be read; the scan is not saved */
+export class ReceiptParseError extends Error {
+  readonly statusCode = 502;
+
+  constructor(readonly pages: number[]) {
+    super(
+      `Could not read photo${pages.length > 1 ? "s" : ""} ${pages.join(
+        ", "
+      )} of the receipt; please retake ${pages.length > 1 ? "them" : "it"}`
+    );
+    this.name = "ReceiptParseError";
+  }
 }
 
 // Environment-driven configuration
@@ -155,7 +178,7 @@ function extractCurrencyCode(raw: any): string {
 const EXTRACTION_INSTRUCTIONS = `You are a receipt parser. Return ONLY valid JSON with this shape:
 {
   "items": [
-    { "id": "string", "name": "string", "unitPrice": number, "quantity": number, "totalPrice": number, "kind": "fee|tip|discount|item|other|null" }
+    { "id": "string", "name": "string", "unitPrice": number, "quantity": number, "totalPrice": number, "kind": "fee|tip|tax|discount|item|other|null", "appliesTo": "string|null", "percent": number|null }
   ],
   "summary": { "grandTotal": number, "currency": "ISO_4217" }
 }
@@ -165,6 +188,9 @@ Rules:
 - quantity >= 1.
 - totalPrice = unitPrice * quantity (round to 2 decimals).
 - Include service/tips/fees as separate items with kind set.
+- Discounts, coupons and promotions are separate items with kind "discount" and NEGATIVE unitPrice/totalPrice.
+- For a discount on a single line (e.g. "-50 скидка", "値引", "割引" under an item) set appliesTo to that item's id.
+- For a discount on the whole bill (e.g. "10% off", coupon) set appliesTo to null; if it is a percentage also set percent (e.g. 10).
 - If currency symbol present ignore it when recording numbers.
 - Detect the receipt currency (e.g. symbols like $, €, ₽ or textual names) and report the ISO 4217 code in uppercase.
 - When unsure about currency, return "UNKNOWN".
@@ -180,24 +206,39 @@ function safeParseJson(text: string): { ok: boolean; data?: ParseResult } {
     const raw = JSON.parse(jsonSlice);
     if (!raw || typeof raw !== "object") return { ok: false };
     if (!Array.isArray(raw.items) || !raw.summary) return { ok: false };
+    const currency = extractCurrencyCode(raw);
+    const round = (n: number) => roundMoney(n, currency);
     // Basic normalization
     const items: ParsedReceiptItem[] = raw.items.map((it: any, idx: number) => {
       const q = Number(it.quantity ?? 1) || 1;
-      const unit = Number(it.unitPrice ?? it.price ?? 0) || 0;
-      const total = Number(it.totalPrice ?? unit * q) || 0;
+      let unit = Number(it.unitPrice ?? it.price ?? 0) || 0;
+      let total = Number(it.totalPrice ?? unit * q) || 0;
+      const kind = it.kind ? String(it.kind) : undefined;
+      const isDiscount = kind?.toLowerCase() === "discount";
+      if (isDiscount) {
+        // Models sometimes report discounts as positive amounts
+        unit = -Math.abs(unit);
+        total = -Math.abs(total);
+      }
+      const percent = Number(it.percent);
       return {
         id: String(it.id ?? idx + 1),
         name: String(it.name ?? "Item"),
-        unitPrice: round2(unit),
+        unitPrice: round(unit),
         quantity: q,
-        totalPrice: round2(total),
-        kind: it.kind ? String(it.kind) : undefined,
+        totalPrice: round(total),
+        kind,
+        ...(isDiscount
+          ? {
+              appliesTo: it.appliesTo != null ? String(it.appliesTo) : null,
+              percent: Number.isFinite(percent) && percent > 0 ? percent : null,
+            }
+          : {}),
       };
     });
-    const grandTotal = round2(
+    const grandTotal = round(
       items.reduce((s, i) => s + (Number(i.totalPrice) || 0), 0)
     );
-    const currency = extractCurrencyCode(raw);
     return {
       ok: true,
       data: {
@@ -217,10 +258,6 @@ function unwrapMarkdown(t: string): string {
   return t.trim();
 }
 
-function round2(n: number) {
-  return Math.round(n * 100) / 100;
-}
-
 /** Fallback deterministic mock when API key missing or parse fails */
 function mockParse(): ParseResult {
   const items: ParsedReceiptItem[] = [
@@ -255,8 +292,60 @@ function mockParse(): ParseResult {
   };
 }
 
+/**
+ * Parse every photo separately, then merge them into one item list (lines
+ * repeated where photos overlap are dropped) with a single summary.
+ * Mock output is never mixed with real pages: when only some photos fall back
+ * to the mock, ReceiptParseError names them.
+ */
 export async function parseReceipt(
   options: ParseOptions
+): Promise<ParseResult> {
+  const pages = await Promise.all(
+    options.images.map((image, idx) =>
+      parseReceiptPage(options, image, idx + 1, options.images.length)
+    )
+  );
+  const failed = pages.flatMap((p, idx) =>
+    p.source === "gemini" ? [] : [idx + 1]
+  );
+  if (failed.length === pages.length) return pages[0] ?? mockParse();
+  if (failed.length > 0) throw new ReceiptParseError(failed);
+  const merged = mergeReceiptPages(pages);
+  if (DEBUG_PARSE && merged.duplicatesRemoved)
+    console.log(
+      `[parseReceipt] ${pages.length} photos, ${merged.duplicatesRemoved} overlapping lines dropped`
+    );
+  const first = pages[0];
+  return {
+    items: merged.items,
+    summary: merged.summary,
+    source: "gemini",
+    model: first?.model,
+    durationMs: pages.some((p) => p.durationMs != null)
+      ? pages.reduce((s, p) => s + (p.durationMs ?? 0), 0)
+      : undefined,
+    usedModelVersion: first?.usedModelVersion,
+    rawModelText: pages.some((p) => p.rawModelText)
+      ? pages
+          .map((p, idx) =>
+            pages.length > 1
+              ? `/* photo ${idx + 1} */\n${p.rawModelText ?? ""}`
+              : p.rawModelText ?? ""
+          )
+          .join("\n")
+      : undefined,
+    modelsTried: pages.some((p) => p.modelsTried)
+      ? pages.flatMap((p) => p.modelsTried ?? [])
+      : undefined,
+  };
+}
+
+async function parseReceiptPage(
+  options: ParseOptions,
+  image: ReceiptImage,
+  page: number,
+  pageCount: number
 ): Promise<ParseResult> {
   if (!GEMINI_API_KEY) {
     if (DEBUG_PARSE)
@@ -282,11 +371,17 @@ export async function parseReceipt(
       }; candidates=${dynamicCandidates.join(",")}`
     );
   }
-  const prompt = `${EXTRACTION_INSTRUCTIONS}\nLanguage context of receipt: ${options.language}\nSession Name: ${options.sessionName}`;
+  const prompt = `${EXTRACTION_INSTRUCTIONS}\nLanguage context of receipt: ${
+    options.language
+  }\nSession Name: ${options.sessionName}${
+    pageCount > 1
+      ? `\nThis is photo ${page} of ${pageCount} of one long receipt; the photos may overlap. List only the lines visible in this photo.`
+      : ""
+  }`;
   const imagePart = {
     inlineData: {
-      data: options.imageBase64,
-      mimeType: options.mimeType,
+      data: image.imageBase64,
+      mimeType: image.mimeType,
     },
   } as const;
 
@@ -0,0 +1,29 @@
+import { prisma } from "../config/prisma.js";
+
+/** True when the two users have an ACCEPTED friendship in either direction */
+export async function areFriends(userA: number, userB: number) {
+  const friendship = await prisma.friendship.findFirst({
+    where: {
+      status: "ACCEPTED",
+      OR: [
+        { requesterId: userA, receiverId: userB },
+        { requesterId: userB, receiverId: userA },
+      ],
+    },
+    select: { id: true },
+  });
+  return !!friendship;
+}
+
+/** Groups (owned or joined) that both users belong to */
+export async function sharedGroupIds(userA: number, userB: number) {
+  const inGroup = (userId: number) => ({
+    OR: [{ ownerId: userId }, { members: { some: { userId } } }],
+  });
+  const groups = await prisma.group.findMany({
+    where: { AND: [inGroup(userA), inGroup(userB)] },
+    select: { id: true },
+    orderBy: { id: "asc" },
+  });
+  return groups.map((g) => g.id);
+}
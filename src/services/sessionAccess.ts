@@ -0,0 +1,62 @@
+import type { SessionStatus } from "@prisma/client";
+import { prisma } from "../config/prisma.js";
+
+export interface SessionAccess {
+  session: {
+    id: number;
+    creatorId: number;
+    groupId: number | null;
+    status: SessionStatus;
+  };
+  isCreator: boolean;
+  isParticipant: boolean;
+  isGroupMember: boolean;
+  /** creator, session participant or member/owner of the session's group */
+  canView: boolean;
+}
+
+/**
+ * Resolve how a user relates to a session.
+ * Returns null when the session does not exist.
+ */
+export async function getSessionAccess(
+  sessionId: number,
+  userId: number
+): Promise<SessionAccess | null> {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: {
+      id: true,
+      creatorId: true,
+      groupId: true,
+      status: true,
+      participants: { where: { userId }, select: { userId: true } },
+      group: {
+        select: {
+          ownerId: true,
+          members: { where: { userId }, select: { userId: true } },
+        },
+      },
+    },
+  });
+  if (!session) return null;
+
+  const isCreator = session.creatorId === userId;
+  const isParticipant = session.participants.length > 0;
+  const isGroupMember =
+    !!session.group &&
+    (session.group.ownerId === userId || session.group.members.length > 0);
+
+  return {
+    session: {
+      id: session.id,
+      creatorId: session.creatorId,
+      groupId: session.groupId,
+      status: session.status,
+    },
+    isCreator,
+    isParticipant,
+    isGroupMember,
+    canView: isCreator || isParticipant || isGroupMember,
+  };
+}
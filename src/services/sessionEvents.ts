@@ -0,0 +1,96 @@
+import type { Response } from "express";
+
+/**
+ * In-memory Server-Sent Events hub: one channel per session.
+ * Connections live in this process only, so all participants of a session
+ * must reach the same instance (fine for the current single-node deploy).
+ */
+
+export type SessionEventType =
+  | "connected"
+  | "item.claimed"
+  | "item.unclaimed"
+  | "participant.joined"
+  | "participant.left"
+  | "fees.updated"
+  | "session.finalized"
+  | "session.status";
+
+interface Subscriber {
+  userId: number;
+  res: Response;
+}
+
+const HEARTBEAT_MS = Number(process.env.SSE_HEARTBEAT_MS || 25000);
+
+const channels = new Map<number, Set<Subscriber>>();
+let nextEventId = 1;
+
+function write(res: Response, type: string, data: unknown, id?: number) {
+  const lines = [`event: ${type}`];
+  if (id != null) lines.push(`id: ${id}`);
+  lines.push(`data: ${JSON.stringify(data)}`);
+  res.write(lines.join("\n") + "\n\n");
+}
+
+/** Attach an SSE response to a session channel; cleans up when the client disconnects */
+export function subscribeToSession(
+  sessionId: number,
+  userId: number,
+  res: Response
+) {
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  // Disable proxy buffering (nginx / Render) so events are delivered immediately
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+
+  const sub: Subscriber = { userId, res };
+  let subs = channels.get(sessionId);
+  if (!subs) {
+    subs = new Set();
+    channels.set(sessionId, subs);
+  }
+  subs.add(sub);
+
+  write(res, "connected", { sessionId, listeners: subs.size });
+
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_MS);
+  res.on("close", () => {
+    clearInterval(heartbeat);
+    const current = channels.get(sessionId);
+    if (!current) return;
+    current.delete(sub);
+    if (current.size === 0) channels.delete(sessionId);
+  });
+}
+
+/** End a user's open streams for a session, e.g. after they were removed from it */
+export function closeSessionSubscriptions(sessionId: number, userId: number) {
+  const subs = channels.get(sessionId);
+  if (!subs) return;
+  for (const sub of [...subs]) {
+    if (sub.userId === userId) sub.res.end(); // "close" handler unsubscribes
+  }
+}
+
+/** Broadcast an event to everyone connected to the session */
+export function publishSessionEvent(
+  sessionId: number,
+  type: SessionEventType,
+  data: Record<string, unknown>
+) {
+  const subs = channels.get(sessionId);
+  if (!subs || subs.size === 0) return;
+  const id = nextEventId++;
+  const payload = { sessionId, at: new Date().toISOString(), ...data };
+  for (const sub of subs) {
+    try {
+      write(sub.res, type, payload, id);
+    } catch (err) {
+      console.warn("[sessionEvents] write failed", { sessionId, err });
+    }
+  }
+}
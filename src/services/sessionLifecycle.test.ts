@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import {
+  editConflict,
+  transition,
+  transitionSources,
+} from "./sessionLifecycle.js";
+
+describe("transition", () => {
+  it("allows the documented moves", () => {
+    expect(transition("ACTIVE", "close")).toEqual({ status: "CLOSED" });
+    expect(transition("ACTIVE", "finalize")).toEqual({ status: "FINALIZED" });
+    expect(transition("CLOSED", "finalize")).toEqual({ status: "FINALIZED" });
+    expect(transition("FINALIZED", "cancel")).toEqual({ status: "CANCELED" });
+    expect(transition("CANCELED", "reopen")).toEqual({ status: "ACTIVE" });
+    expect(transition("FINALIZED", "reopen")).toEqual({ status: "ACTIVE" });
+  });
+
+  it("rejects everything else with INVALID_TRANSITION", () => {
+    expect(transition("FINALIZED", "finalize")).toEqual({
+      error: "Session is already finalized",
+      code: "INVALID_TRANSITION",
+      status: "FINALIZED",
+    });
+    expect(transition("CANCELED", "finalize")).toMatchObject({
+      error: "Cannot finalize a canceled session",
+    });
+    expect(transition("ACTIVE", "reopen")).toMatchObject({
+      code: "INVALID_TRANSITION",
+    });
+    expect(transition("FINALIZED", "close")).toMatchObject({
+      code: "INVALID_TRANSITION",
+    });
+  });
+});
+
+describe("transitionSources", () => {
+  it("lists the statuses a transition may start from", () => {
+    expect(transitionSources("finalize")).toEqual(["ACTIVE", "CLOSED"]);
+    expect(transitionSources("close")).toEqual(["ACTIVE"]);
+  });
+});
+
+describe("editConflict", () => {
+  it("only lets ACTIVE sessions be edited", () => {
+    expect(editConflict("ACTIVE")).toBeNull();
+    for (const status of ["CLOSED", "FINALIZED", "CANCELED"] as const) {
+      expect(editConflict(status)).toMatchObject({
+        code: "SESSION_LOCKED",
+        status,
+      });
+    }
+  });
+});
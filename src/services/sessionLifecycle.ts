@@ -0,0 +1,75 @@
+import type { SessionStatus } from "@prisma/client";
+
+/**
+ * Session lifecycle:
+ *
+ *   ACTIVE --close--> CLOSED --finalize--> FINALIZED
+ *   ACTIVE --finalize--> FINALIZED
+ *   ACTIVE | CLOSED | FINALIZED --cancel--> CANCELED
+ *   CLOSED | FINALIZED | CANCELED --reopen--> ACTIVE
+ *
+ * Only ACTIVE sessions accept edits (scan, fees, participants, claims); to
+ * correct a finalized session, reopen it and finalize again. Pure (no DB access).
+ */
+
+export type SessionTransition = "close" | "finalize" | "cancel" | "reopen";
+
+const TRANSITIONS: Record<
+  SessionTransition,
+  { from: readonly SessionStatus[]; to: SessionStatus }
+> = {
+  close: { from: ["ACTIVE"], to: "CLOSED" },
+  finalize: { from: ["ACTIVE", "CLOSED"], to: "FINALIZED" },
+  cancel: { from: ["ACTIVE", "CLOSED", "FINALIZED"], to: "CANCELED" },
+  reopen: { from: ["CLOSED", "FINALIZED", "CANCELED"], to: "ACTIVE" },
+};
+
+/** Body of the 409 returned when a session's status forbids the request */
+export interface SessionStateConflict {
+  error: string;
+  code: "SESSION_LOCKED" | "INVALID_TRANSITION";
+  status: SessionStatus;
+}
+
+function lockMessage(status: SessionStatus) {
+  switch (status) {
+    case "CLOSED":
+      return "Session is closed; reopen it to make changes";
+    case "FINALIZED":
+      return "Session is finalized; reopen it to make changes";
+    case "CANCELED":
+      return "Session is canceled";
+    default:
+      return `Session is ${status.toLowerCase()}`;
+  }
+}
+
+/** null when the session accepts edits, otherwise the 409 body */
+export function editConflict(
+  status: SessionStatus
+): SessionStateConflict | null {
+  if (status === "ACTIVE") return null;
+  return { error: lockMessage(status), code: "SESSION_LOCKED", status };
+}
+
+/** The status after `action`, or the 409 body when it is not allowed from `status` */
+export function transition(
+  status: SessionStatus,
+  action: SessionTransition
+): { status: SessionStatus } | SessionStateConflict {
+  const rule = TRANSITIONS[action];
+  if (rule.from.includes(status)) return { status: rule.to };
+  return {
+    error:
+      status === rule.to
+        ? `Session is already ${status.toLowerCase()}`
+        : `Cannot ${action} a ${status.toLowerCase()} session`,
+    code: "INVALID_TRANSITION",
+    status,
+  };
+}
+
+/** Statuses `action` may start from (for conditional updates that guard against races) */
+export function transitionSources(action: SessionTransition): SessionStatus[] {
+  return [...TRANSITIONS[action].from];
+}
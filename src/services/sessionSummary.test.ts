@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  formatMoney,
+  renderSessionSummaryHtml,
+  signSummaryToken,
+  verifySummaryToken,
+} from "./sessionSummary.js";
+
+const source = {
+  sessionId: 7,
+  sessionName: "<b>Dinner</b>",
+  finalizedAt: new Date("2025-10-31T23:30:00Z"),
+  currency: "JPY",
+  grandTotal: 4600,
+  payload: {
+    totals: {
+      byParticipant: [
+        {
+          participantId: "p1",
+          uniqueId: "#1111",
+          username: "alice",
+          itemsSubtotal: 2000,
+          discounts: 0,
+          charges: { tax: 0, tip: 0, fee: 300 },
+          amountOwed: 2300,
+          paid: 4600,
+        },
+        {
+          participantId: "p2",
+          uniqueId: "#2222",
+          username: "bob",
+          itemsSubtotal: 2000,
+          discounts: 0,
+          charges: { tax: 0, tip: 0, fee: 300 },
+          amountOwed: 2300,
+          paid: 0,
+        },
+      ],
+      byItem: [{ itemId: "i1", name: "Ramen", total: 4000, kind: "item" }],
+      byCharge: [{ chargeId: "c1", name: "Service", kind: "fee", total: 600 }],
+    },
+    allocations: [
+      { itemId: "i1", participantId: "p1", shareAmount: 2000 },
+      { itemId: "i1", participantId: "p2", shareAmount: 2000 },
+      { chargeId: "c1", kind: "fee", participantId: "p1", shareAmount: 300 },
+      { chargeId: "c1", kind: "fee", participantId: "p2", shareAmount: 300 },
+    ],
+  },
+};
+
+describe("renderSessionSummaryHtml", () => {
+  it("renders items, shares and per-person totals", () => {
+    const html = renderSessionSummaryHtml(source);
+    expect(html).toContain("<title>&lt;b&gt;Dinner&lt;/b&gt;</title>");
+    expect(html).toContain("Ramen");
+    expect(html).toContain("alice ¥2,000, bob ¥2,000");
+    expect(html).toContain("Service");
+    expect(html).toContain("¥2,300");
+    expect(html).not.toContain("<b>Dinner</b>");
+  });
+
+  it("falls back to plain numbers for unknown currencies", () => {
+    expect(formatMoney(12.5, "UNKNOWN")).toBe("12.50");
+    expect(formatMoney(1.5, "BHD")).toMatch(/^BHD\s1\.500$/);
+  });
+});
+
+describe("summary share tokens", () => {
+  const saved = { ...process.env };
+  beforeEach(() => {
+    delete process.env.SESSION_SHARE_SECRET;
+    process.env.JWT_SECRET = "test-secret";
+  });
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it("round-trips the session id", () => {
+    const signed = signSummaryToken(7, 600);
+    expect(signed).not.toBeNull();
+    expect(verifySummaryToken(signed!.token)).toBe(7);
+  });
+
+  it("rejects tokens signed with another secret or expired", () => {
+    const signed = signSummaryToken(7, 600)!;
+    process.env.SESSION_SHARE_SECRET = "other";
+    expect(verifySummaryToken(signed.token)).toBeNull();
+    expect(verifySummaryToken(signSummaryToken(7, -10)!.token)).toBeNull();
+  });
+});
@@ -0,0 +1,207 @@
+import jwt from "jsonwebtoken";
+import { currencyDigits } from "../utils/currency.js";
+
+/**
+ * Printable summary of a finalized session, rendered from the stored finalize
+ * payload, and the signed tokens behind its public share links.
+ */
+
+export interface SummarySource {
+  sessionId: number;
+  sessionName: string | null;
+  finalizedAt: Date;
+  currency: string;
+  grandTotal: number;
+  /** The finalize response stored on SessionHistoryEntry */
+  payload: unknown;
+}
+
+const SUMMARY_TOKEN_TYPE = "session_summary";
+
+/** Helper: choose secret for session share links */
+function getShareSecret() {
+  return process.env.SESSION_SHARE_SECRET || process.env.JWT_SECRET || "";
+}
+
+/** Signed link token for one session; null when no secret is configured */
+export function signSummaryToken(sessionId: number, ttlSeconds: number) {
+  const secret = getShareSecret();
+  if (!secret) return null;
+  const nowSec = Math.floor(Date.now() / 1000);
+  const exp = nowSec + ttlSeconds;
+  const token = jwt.sign(
+    { typ: SUMMARY_TOKEN_TYPE, sid: sessionId, iat: nowSec, exp },
+    secret
+  );
+  return { token, expiresAt: new Date(exp * 1000) };
+}
+
+/** Session id of a valid, unexpired share token; null otherwise */
+export function verifySummaryToken(token: string): number | null {
+  const secret = getShareSecret();
+  if (!secret || !token) return null;
+  let decoded: any;
+  try {
+    decoded = jwt.verify(token, secret);
+  } catch {
+    return null;
+  }
+  if (!decoded || decoded.typ !== SUMMARY_TOKEN_TYPE) return null;
+  const sessionId = Number(decoded.sid);
+  return Number.isInteger(sessionId) ? sessionId : null;
+}
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+export function formatMoney(amount: number, currency: string): string {
+  const digits = currencyDigits(currency);
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits,
+    }).format(amount);
+  } catch {
+    // Not an ISO code (e.g. "UNKNOWN")
+    return amount.toFixed(digits);
+  }
+}
+
+/** Standalone HTML page: items with who had what, charges, and per-person totals */
+export function renderSessionSummaryHtml(source: SummarySource): string {
+  const payload = source.payload as any;
+  const list = (v: unknown): any[] => (Array.isArray(v) ? v : []);
+  const money = (v: unknown) =>
+    escapeHtml(formatMoney(Number(v) || 0, source.currency));
+
+  const people = list(payload?.totals?.byParticipant);
+  const nameByParticipant = new Map(
+    people.map((p) => [String(p?.participantId), p?.username ?? p?.uniqueId])
+  );
+  const sharesOf = (key: "itemId" | "chargeId", id: unknown) =>
+    list(payload?.allocations)
+      .filter((a) => a?.[key] != null && String(a[key]) === String(id))
+      .map(
+        (a) =>
+          `${escapeHtml(
+            nameByParticipant.get(String(a.participantId)) ?? a.participantId
+          )} ${money(a.shareAmount)}`
+      )
+      .join(", ");
+
+  const itemRows = list(payload?.totals?.byItem)
+    .map(
+      (item) => `<tr>
+  <td>${escapeHtml(item?.name)}${
+        item?.kind && item.kind !== "item"
+          ? ` <span class="kind">${escapeHtml(item.kind)}</span>`
+          : ""
+      }</td>
+  <td class="num">${money(item?.total)}</td>
+  <td class="who">${sharesOf("itemId", item?.itemId)}</td>
+</tr>`
+    )
+    .join("\n");
+
+  const chargeRows = list(payload?.totals?.byCharge)
+    .map(
+      (charge) => `<tr>
+  <td>${escapeHtml(charge?.name)} <span class="kind">${escapeHtml(
+        charge?.kind
+      )}</span></td>
+  <td class="num">${money(charge?.total)}</td>
+  <td class="who">${sharesOf("chargeId", charge?.chargeId)}</td>
+</tr>`
+    )
+    .join("\n");
+
+  const personRows = people
+    .map((p) => {
+      const charges = Object.values(p?.charges ?? {}).reduce(
+        (sum: number, v) => sum + (Number(v) || 0),
+        0
+      );
+      const hasPaid = typeof p?.paid === "number";
+      return `<tr>
+  <td>${escapeHtml(p?.username ?? p?.uniqueId)}</td>
+  <td class="num">${money(p?.itemsSubtotal)}</td>
+  <td class="num">${money(p?.discounts)}</td>
+  <td class="num">${money(charges)}</td>
+  <td class="num total">${money(p?.amountOwed ?? p?.total)}</td>
+  <td class="num">${hasPaid ? money(p.paid) : "&mdash;"}</td>
+</tr>`;
+    })
+    .join("\n");
+
+  const title = source.sessionName || `Session #${source.sessionId}`;
+  const finalized = source.finalizedAt
+    .toISOString()
+    .slice(0, 16)
+    .replace("T", " ");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", Roboto, sans-serif; max-width: 760px; margin: 2rem auto; padding: 0 1rem; color: #222; }
+  h1 { margin-bottom: 0.25rem; }
+  .meta { color: #666; margin-top: 0; }
+  table { width: 100%; border-collapse: collapse; margin: 1rem 0 2rem; }
+  th, td { text-align: left; padding: 0.4rem 0.5rem; border-bottom: 1px solid #e5e5e5; vertical-align: top; }
+  th { font-size: 0.85rem; color: #666; text-transform: uppercase; }
+  .num { text-align: right; white-space: nowrap; }
+  .who { color: #555; font-size: 0.9rem; }
+  .kind { color: #888; font-size: 0.8rem; }
+  .total { font-weight: 600; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">Finalized ${escapeHtml(finalized)} UTC &middot; Total ${money(
+    source.grandTotal
+  )}</p>
+
+<h2>Items</h2>
+<table>
+<thead><tr><th>Item</th><th class="num">Total</th><th>Who had it</th></tr></thead>
+<tbody>
+${itemRows}
+</tbody>
+</table>
+${
+  chargeRows
+    ? `
+<h2>Fees</h2>
+<table>
+<thead><tr><th>Charge</th><th class="num">Total</th><th>Split</th></tr></thead>
+<tbody>
+${chargeRows}
+</tbody>
+</table>
+`
+    : ""
+}
+<h2>Per person</h2>
+<table>
+<thead><tr><th>Name</th><th class="num">Items</th><th class="num">Discounts</th><th class="num">Fees</th><th class="num">Owes</th><th class="num">Paid</th></tr></thead>
+<tbody>
+${personRows}
+</tbody>
+</table>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { planSettlements } from "./settlement.js";
+
+describe("planSettlements", () => {
+  it("zeroes everyone with at most n-1 transfers", () => {
+    const positions = [
+      { userId: 1, currency: "USD", net: 50 },
+      { userId: 2, currency: "USD", net: -20 },
+      { userId: 3, currency: "USD", net: -20 },
+      { userId: 4, currency: "USD", net: -10 },
+    ];
+    const plan = planSettlements(positions);
+    expect(plan.length).toBeLessThanOrEqual(positions.length - 1);
+    const after = new Map(positions.map((p) => [p.userId, p.net]));
+    for (const t of plan) {
+      after.set(t.fromUserId, after.get(t.fromUserId)! + t.amount);
+      after.set(t.toUserId, after.get(t.toUserId)! - t.amount);
+    }
+    expect([...after.values()].every((v) => Math.abs(v) < 1e-9)).toBe(true);
+  });
+
+  it("pairs exact opposites directly", () => {
+    const plan = planSettlements([
+      { userId: 1, currency: "EUR", net: 30 },
+      { userId: 2, currency: "EUR", net: 10 },
+      { userId: 3, currency: "EUR", net: -10 },
+      { userId: 4, currency: "EUR", net: -30 },
+    ]);
+    expect(plan).toEqual([
+      { currency: "EUR", fromUserId: 4, toUserId: 1, amount: 30 },
+      { currency: "EUR", fromUserId: 3, toUserId: 2, amount: 10 },
+    ]);
+  });
+
+  it("plans each currency separately", () => {
+    const plan = planSettlements([
+      { userId: 1, currency: "USD", net: 12.5 },
+      { userId: 2, currency: "USD", net: -12.5 },
+      { userId: 2, currency: "JPY", net: 1000 },
+      { userId: 1, currency: "JPY", net: -1000 },
+    ]);
+    expect(plan).toEqual([
+      { currency: "JPY", fromUserId: 1, toUserId: 2, amount: 1000 },
+      { currency: "USD", fromUserId: 2, toUserId: 1, amount: 12.5 },
+    ]);
+  });
+
+  it("returns nothing when everyone is settled", () => {
+    expect(planSettlements([])).toEqual([]);
+  });
+});
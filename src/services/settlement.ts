@@ -0,0 +1,103 @@
+import { fromMinorUnits, toMinorUnits } from "../utils/currency.js";
+
+/**
+ * Settlement planning: given everyone's net position, find transfers that bring
+ * every balance to zero. Pure (no DB access).
+ */
+
+export interface NetPosition {
+  userId: number;
+  currency: string;
+  /** > 0: others owe this user; < 0: this user owes others */
+  net: number;
+}
+
+export interface PlannedTransfer {
+  currency: string;
+  fromUserId: number;
+  toUserId: number;
+  amount: number;
+}
+
+/**
+ * Match debtors with creditors for one currency, amounts in integer minor units
+ * keyed by userId (> 0 = owed money, < 0 = owes money).
+ * Exact opposites are paired first, then the largest debtor pays the largest
+ * creditor (lower userId on ties) until everything is zero. This never needs more
+ * than n-1 transfers for n non-zero balances and is deterministic.
+ */
+export function matchTransfers(
+  netMinor: Map<number, number>
+): Array<{ fromUserId: number; toUserId: number; amount: number }> {
+  const byAmount = (a: [number, number], b: [number, number]) =>
+    b[1] - a[1] || a[0] - b[0];
+  const debtors = [...netMinor.entries()]
+    .filter(([, v]) => v < 0)
+    .map(([id, v]): [number, number] => [id, -v])
+    .sort(byAmount);
+  const creditors = [...netMinor.entries()]
+    .filter(([, v]) => v > 0)
+    .map(([id, v]): [number, number] => [id, v])
+    .sort(byAmount);
+
+  const transfers: Array<{
+    fromUserId: number;
+    toUserId: number;
+    amount: number;
+  }> = [];
+  for (const debtor of debtors) {
+    const twin = creditors.find((c) => c[1] === debtor[1]);
+    if (!twin) continue;
+    transfers.push({
+      fromUserId: debtor[0],
+      toUserId: twin[0],
+      amount: debtor[1],
+    });
+    debtor[1] = 0;
+    twin[1] = 0;
+  }
+
+  const openDebtors = debtors.filter((d) => d[1] > 0);
+  const openCreditors = creditors.filter((c) => c[1] > 0);
+  while (openDebtors.length > 0 && openCreditors.length > 0) {
+    openDebtors.sort(byAmount);
+    openCreditors.sort(byAmount);
+    const debtor = openDebtors[0]!;
+    const creditor = openCreditors[0]!;
+    const amount = Math.min(debtor[1], creditor[1]);
+    transfers.push({ fromUserId: debtor[0], toUserId: creditor[0], amount });
+    debtor[1] -= amount;
+    creditor[1] -= amount;
+    if (debtor[1] === 0) openDebtors.shift();
+    if (creditor[1] === 0) openCreditors.shift();
+  }
+  return transfers;
+}
+
+/**
+ * Transfers that zero every balance, planned independently per currency.
+ * Rounding leftovers (positions that do not sum to zero) are left unsettled.
+ */
+export function planSettlements(positions: NetPosition[]): PlannedTransfer[] {
+  const byCurrency = new Map<string, Map<number, number>>();
+  for (const p of positions) {
+    const nets = byCurrency.get(p.currency) || new Map<number, number>();
+    nets.set(
+      p.userId,
+      (nets.get(p.userId) || 0) + toMinorUnits(p.net, p.currency)
+    );
+    byCurrency.set(p.currency, nets);
+  }
+  const plan: PlannedTransfer[] = [];
+  for (const currency of [...byCurrency.keys()].sort()) {
+    for (const t of matchTransfers(byCurrency.get(currency)!)) {
+      plan.push({
+        currency,
+        fromUserId: t.fromUserId,
+        toUserId: t.toUserId,
+        amount: fromMinorUnits(t.amount, currency),
+      });
+    }
+  }
+  return plan;
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { computeUserStats } from "./userStats.js";
+
+function payload(
+  rows: Array<{ uniqueId: string; participantId: string; amountOwed: number }>,
+  byItem: Array<{ itemId: string; kind?: string }>,
+  allocations: Array<Record<string, unknown>>
+) {
+  return { totals: { byParticipant: rows, byItem }, allocations };
+}
+
+describe("computeUserStats", () => {
+  const entries = [
+    {
+      sessionId: 1,
+      finalizedAt: new Date("2025-10-10T19:00:00Z"),
+      currency: "USD",
+      grandTotal: 33,
+      participantUniqueIds: ["#1111", "#2222"],
+      payload: payload(
+        [
+          { uniqueId: "#1111", participantId: "p1", amountOwed: 11 },
+          { uniqueId: "#2222", participantId: "p2", amountOwed: 22 },
+        ],
+        [
+          { itemId: "i1", kind: "item" },
+          { itemId: "d1", kind: "discount" },
+        ],
+        [
+          { itemId: "i1", participantId: "p1", shareAmount: 12 },
+          { itemId: "d1", participantId: "p1", shareAmount: -2 },
+          { chargeId: "c1", kind: "tip", participantId: "p1", shareAmount: 1 },
+          { itemId: "i1", participantId: "p2", shareAmount: 22 },
+        ]
+      ),
+    },
+    {
+      sessionId: 2,
+      finalizedAt: new Date("2025-11-02T12:00:00Z"),
+      currency: "USD",
+      grandTotal: 10,
+      participantUniqueIds: ["#1111", "#2222", "#3333"],
+      payload: payload(
+        [{ uniqueId: "#1111", participantId: "p1", amountOwed: 5 }],
+        [{ itemId: "i1" }],
+        [{ itemId: "i1", participantId: "p1", shareAmount: 5 }]
+      ),
+    },
+    {
+      sessionId: 3,
+      finalizedAt: new Date("2025-11-03T12:00:00Z"),
+      currency: "JPY",
+      grandTotal: 4600,
+      participantUniqueIds: ["#3333"],
+      payload: payload(
+        [{ uniqueId: "#3333", participantId: "p1", amountOwed: 4600 }],
+        [],
+        []
+      ),
+    },
+  ];
+
+  it("sums spend and averages bills per currency", () => {
+    const stats = computeUserStats("#1111", entries);
+    expect(stats.sessions).toBe(3);
+    expect(stats.byCurrency).toEqual([
+      {
+        currency: "JPY",
+        sessions: 1,
+        spent: 0,
+        averageBill: 4600,
+        averageShare: 0,
+      },
+      {
+        currency: "USD",
+        sessions: 2,
+        spent: 16,
+        averageBill: 21.5,
+        averageShare: 8,
+      },
+    ]);
+  });
+
+  it("buckets spend by month and kind", () => {
+    const stats = computeUserStats("#1111", entries);
+    expect(stats.monthly).toEqual([
+      { month: "2025-10", currency: "USD", sessions: 1, spent: 11 },
+      { month: "2025-11", currency: "JPY", sessions: 1, spent: 0 },
+      { month: "2025-11", currency: "USD", sessions: 1, spent: 5 },
+    ]);
+    expect(stats.byKind).toEqual([
+      { kind: "discount", currency: "USD", amount: -2 },
+      { kind: "item", currency: "USD", amount: 17 },
+      { kind: "tip", currency: "USD", amount: 1 },
+    ]);
+  });
+
+  it("ranks co-diners by shared sessions", () => {
+    expect(computeUserStats("#1111", entries).topCoDiners).toEqual([
+      { uniqueId: "#2222", sessions: 2 },
+      { uniqueId: "#3333", sessions: 1 },
+    ]);
+    expect(computeUserStats("#1111", entries, 1).topCoDiners).toEqual([
+      { uniqueId: "#2222", sessions: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,214 @@
+import { fromMinorUnits, toMinorUnits } from "../utils/currency.js";
+import { monthKey } from "./groupSummary.js";
+
+/**
+ * Spending analytics for one user, computed from their finalized history entries
+ * and the allocations stored in each payload. Pure (no DB access).
+ */
+
+export interface HistoryEntryFacts {
+  sessionId: number;
+  finalizedAt: Date;
+  currency: string;
+  grandTotal: number;
+  participantUniqueIds: string[];
+  /** The finalize response stored on SessionHistoryEntry */
+  payload: unknown;
+}
+
+export interface CurrencyStats {
+  currency: string;
+  sessions: number;
+  /** Sum of the user's shares */
+  spent: number;
+  /** Average grandTotal of the bills the user took part in */
+  averageBill: number;
+  averageShare: number;
+}
+
+export interface MonthlyStats {
+  /** UTC month, "YYYY-MM" */
+  month: string;
+  currency: string;
+  sessions: number;
+  spent: number;
+}
+
+export interface KindStats {
+  /** Item kind from the parser ("item", "discount", ...) or charge kind */
+  kind: string;
+  currency: string;
+  amount: number;
+}
+
+export interface CoDiner {
+  uniqueId: string;
+  sessions: number;
+}
+
+export interface UserStats {
+  sessions: number;
+  byCurrency: CurrencyStats[];
+  monthly: MonthlyStats[];
+  byKind: KindStats[];
+  topCoDiners: CoDiner[];
+}
+
+/** The user's row in payload.totals.byParticipant, if any */
+function ownShare(payload: any, uniqueId: string) {
+  const rows: any[] = Array.isArray(payload?.totals?.byParticipant)
+    ? payload.totals.byParticipant
+    : [];
+  const row = rows.find((r) => r?.uniqueId === uniqueId);
+  if (!row) return null;
+  return {
+    participantId: String(row.participantId ?? ""),
+    amount: Number(row.amountOwed ?? row.total) || 0,
+  };
+}
+
+/** The user's allocations grouped by kind, in minor units */
+function ownKinds(
+  payload: any,
+  participantId: string,
+  currency: string
+): Map<string, number> {
+  const kinds = new Map<string, number>();
+  if (!participantId) return kinds;
+  const itemKind = new Map<string, string>();
+  const byItem: any[] = Array.isArray(payload?.totals?.byItem)
+    ? payload.totals.byItem
+    : [];
+  for (const item of byItem) {
+    itemKind.set(String(item?.itemId), String(item?.kind || "item"));
+  }
+  const allocations: any[] = Array.isArray(payload?.allocations)
+    ? payload.allocations
+    : [];
+  for (const a of allocations) {
+    if (a?.participantId !== participantId) continue;
+    const kind =
+      a.chargeId != null
+        ? String(a.kind || "fee")
+        : itemKind.get(String(a.itemId)) ?? "item";
+    kinds.set(
+      kind,
+      (kinds.get(kind) || 0) +
+        toMinorUnits(Number(a.shareAmount) || 0, currency)
+    );
+  }
+  return kinds;
+}
+
+/**
+ * Aggregate `entries` from `uniqueId`'s point of view. Entries the user only
+ * created (without being a participant) count towards bill sizes but not towards
+ * spend or co-diners.
+ */
+export function computeUserStats(
+  uniqueId: string,
+  entries: HistoryEntryFacts[],
+  topCoDiners = 5
+): UserStats {
+  const currencies = new Map<
+    string,
+    { sessions: number; spent: number; bills: number; shares: number }
+  >();
+  const monthly = new Map<string, MonthlyStats & { minor: number }>();
+  const kinds = new Map<
+    string,
+    { kind: string; currency: string; v: number }
+  >();
+  const coDiners = new Map<string, number>();
+
+  for (const e of entries) {
+    const share = ownShare(e.payload, uniqueId);
+    const spent = share ? toMinorUnits(share.amount, e.currency) : 0;
+
+    const c = currencies.get(e.currency) || {
+      sessions: 0,
+      spent: 0,
+      bills: 0,
+      shares: 0,
+    };
+    c.sessions += 1;
+    c.spent += spent;
+    c.bills += toMinorUnits(e.grandTotal, e.currency);
+    if (share) c.shares += 1;
+    currencies.set(e.currency, c);
+
+    const month = monthKey(e.finalizedAt);
+    const mKey = `${month}:${e.currency}`;
+    const m = monthly.get(mKey) || {
+      month,
+      currency: e.currency,
+      sessions: 0,
+      spent: 0,
+      minor: 0,
+    };
+    m.sessions += 1;
+    m.minor += spent;
+    monthly.set(mKey, m);
+
+    if (share) {
+      for (const [kind, v] of ownKinds(
+        e.payload,
+        share.participantId,
+        e.currency
+      )) {
+        const kKey = `${kind}:${e.currency}`;
+        const k = kinds.get(kKey) || { kind, currency: e.currency, v: 0 };
+        k.v += v;
+        kinds.set(kKey, k);
+      }
+    }
+
+    if (!e.participantUniqueIds.includes(uniqueId)) continue;
+    for (const other of new Set(e.participantUniqueIds)) {
+      if (other === uniqueId) continue;
+      coDiners.set(other, (coDiners.get(other) || 0) + 1);
+    }
+  }
+
+  return {
+    sessions: entries.length,
+    byCurrency: [...currencies.entries()]
+      .map(([currency, c]) => ({
+        currency,
+        sessions: c.sessions,
+        spent: fromMinorUnits(c.spent, currency),
+        averageBill: fromMinorUnits(Math.round(c.bills / c.sessions), currency),
+        averageShare: c.shares
+          ? fromMinorUnits(Math.round(c.spent / c.shares), currency)
+          : 0,
+      }))
+      .sort((a, b) => a.currency.localeCompare(b.currency)),
+    monthly: [...monthly.values()]
+      .map(({ minor, ...m }) => ({
+        ...m,
+        spent: fromMinorUnits(minor, m.currency),
+      }))
+      .sort(
+        (a, b) =>
+          a.month.localeCompare(b.month) || a.currency.localeCompare(b.currency)
+      ),
+    byKind: [...kinds.values()]
+      .filter((k) => k.v !== 0)
+      .map((k) => ({
+        kind: k.kind,
+        currency: k.currency,
+        amount: fromMinorUnits(k.v, k.currency),
+      }))
+      .sort(
+        (a, b) =>
+          a.currency.localeCompare(b.currency) || a.kind.localeCompare(b.kind)
+      ),
+    topCoDiners: [...coDiners.entries()]
+      .map(([id, sessions]) => ({ uniqueId: id, sessions }))
+      .sort(
+        (a, b) =>
+          b.sessions - a.sessions || a.uniqueId.localeCompare(b.uniqueId)
+      )
+      .slice(0, topCoDiners),
+  };
+}
@@ -0,0 +1,79 @@
+// ISO 4217 minor units for currencies that do not use two decimals.
+// Anything not listed (including "UNKNOWN") is treated as two decimals.
+const MINOR_UNIT_DIGITS: Record<string, number> = {
+  BIF: 0,
+  CLP: 0,
+  DJF: 0,
+  GNF: 0,
+  ISK: 0,
+  JPY: 0,
+  KMF: 0,
+  KRW: 0,
+  PYG: 0,
+  RWF: 0,
+  UGX: 0,
+  UYI: 0,
+  VND: 0,
+  VUV: 0,
+  XAF: 0,
+  XOF: 0,
+  XPF: 0,
+  BHD: 3,
+  IQD: 3,
+  JOD: 3,
+  KWD: 3,
+  LYD: 3,
+  OMR: 3,
+  TND: 3,
+};
+
+export function currencyDigits(currency: string): number {
+  return MINOR_UNIT_DIGITS[currency.toUpperCase()] ?? 2;
+}
+
+/** Convert a major-unit amount (e.g. 12.34 USD) to integer minor units (1234) */
+export function toMinorUnits(amount: number, currency: string): number {
+  const factor = 10 ** currencyDigits(currency);
+  // toFixed first so values like 1.005 don't round down because of float error
+  return Math.round(Number((amount * factor).toFixed(6)));
+}
+
+export function fromMinorUnits(minor: number, currency: string): number {
+  const digits = currencyDigits(currency);
+  return Number((minor / 10 ** digits).toFixed(digits));
+}
+
+/** Round a major-unit amount to the currency's smallest unit */
+export function roundMoney(amount: number, currency: string): number {
+  return fromMinorUnits(toMinorUnits(amount, currency), currency);
+}
+
+/**
+ * Split an integer amount of minor units by weights so the parts add up exactly.
+ * Everyone gets the floor of their exact share; leftover units go one each to
+ * the largest fractional remainders, ties broken by position (earlier first).
+ * All-zero weights split equally.
+ */
+export function splitMinorUnits(total: number, weights: number[]): number[] {
+  if (weights.length === 0) return [];
+  const sum = weights.reduce((s, w) => s + Math.max(0, w), 0);
+  const effective =
+    sum > 0 ? weights.map((w) => Math.max(0, w)) : weights.map(() => 1);
+  const effectiveSum = sum > 0 ? sum : weights.length;
+  const sign = total < 0 ? -1 : 1;
+  const abs = Math.abs(total);
+
+  const exact = effective.map((w) => (abs * w) / effectiveSum);
+  const parts = exact.map((v) => Math.floor(v + 1e-9));
+  let leftover = abs - parts.reduce((s, v) => s + v, 0);
+  const order = exact
+    .map((v, idx) => ({ idx, frac: v - parts[idx]!, w: effective[idx]! }))
+    .filter((e) => e.w > 0)
+    .sort((a, b) => b.frac - a.frac || a.idx - b.idx);
+  for (let i = 0; leftover > 0 && order.length > 0; i++) {
+    const target = order[i % order.length]!;
+    parts[target.idx] = parts[target.idx]! + 1;
+    leftover--;
+  }
+  return parts.map((v) => v * sign);
+}
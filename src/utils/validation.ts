@@ -18,3 +18,21 @@ export function hasJsonContentType(req: Request): boolean {
   const ct = String(req.headers["content-type"] || "");
   return ct.includes("application/json");
 }
+
+/**
+ * Parse a date query parameter: undefined when absent, null when invalid.
+ * With `endOfDay`, a date-only value ("2025-10-31") covers the whole UTC day.
+ */
+export function parseDateParam(
+  value: unknown,
+  endOfDay = false
+): Date | null | undefined {
+  if (value == null || value === "") return undefined;
+  const raw = String(value);
+  const date = new Date(raw);
+  if (Number.isNaN(date.getTime())) return null;
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(raw)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+}